@@ -1,6 +1,7 @@
 using Api.Data;
 using Api.Models;
 using Microsoft.AspNetCore.OData;
+using Microsoft.AspNetCore.OData.Batch;
 using Microsoft.AspNetCore.OData.Routing.Conventions;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.OData.Edm;
@@ -36,7 +37,7 @@ namespace Api
                     .SetMaxTop(100)
                     .Count()
                     .Expand()
-                    .AddRouteComponents("odata", GetEdmModel());
+                    .AddRouteComponents("odata", GetEdmModel(), new DefaultODataBatchHandler());
 
                     // Turn off routing conventions that generate routes from controller actions
                     options.Conventions.Clear();
@@ -70,6 +71,9 @@ namespace Api
             
             // Use CORS middleware
             app.UseCors("AllowAnyOrigin");
+
+            // Handle odata/$batch (JSON and multipart) before routing, so each inner request is routed on its own
+            app.UseODataBatching();
             
             app.UseAuthorization();
             app.MapControllers();
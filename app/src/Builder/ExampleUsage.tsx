@@ -1,15 +1,20 @@
-import { useForm } from "./core/useForm";
-import { NATIVE_INPUT_CONFIG } from "./FormComponents";
+import { useFieldArray, useForm } from "./core/useForm";
+import { defineSchema } from "./core/FormSchema";
+import { NATIVE_INPUT_CONFIG, NativeInput } from "./FormComponents";
+
+// Typed schema: useForm infers { name: string; email: string; age: number; subscribe: boolean } from it, and
+// renderField only accepts these keys with their components' props
+const EXAMPLE_SCHEMA = defineSchema(NATIVE_INPUT_CONFIG, {
+  name: { type: "text", props: { label: "Name", required: true }, rules: [{ type: "minLength", value: 2 }] },
+  email: { type: "email", props: { label: "Email", required: true } },
+  age: { type: "number", props: { label: "Age", type: "number", min: 0, max: 120 } },
+  subscribe: { type: "checkbox", props: { label: "Subscribe to newsletter" } },
+});
 
 export function ExampleWithUseForm() {
   const [form] = useForm(
     { name: "", email: "", age: 0, subscribe: false },
-    {
-      name: { type: "text", props: { label: "Name", required: true } },
-      email: { type: "email", props: { label: "Email", required: true } },
-      age: { type: "number", props: { label: "Age", min: 0, max: 120 } },
-      subscribe: { type: "checkbox", props: { label: "Subscribe to newsletter" } },
-    },
+    EXAMPLE_SCHEMA,
     NATIVE_INPUT_CONFIG,
     (values) => {
       const errors: Record<string, string> = {};
@@ -17,7 +22,8 @@ export function ExampleWithUseForm() {
       if (!values.email) errors.email = "Email is required";
       if (values.age < 0) errors.age = "Age must be positive";
       return errors;
-    }
+    },
+    { showErrors: "touched", validateOn: "blur" }
   );
 
   return (
@@ -48,6 +54,68 @@ export function ExampleWithUseForm() {
       </form>
       <pre>Values: {JSON.stringify(form.values, null, 2)}</pre>
       <pre>Errors: {JSON.stringify(form.errors, null, 2)}</pre>
+      <pre>
+        State:{" "}
+        {JSON.stringify(
+          {
+            touched: form.touched,
+            dirty: form.dirty,
+            isDirty: form.isDirty,
+            isValid: form.isValid,
+            submitCount: form.submitCount,
+          },
+          null,
+          2
+        )}
+      </pre>
+    </div>
+  );
+}
+
+export function ExampleWithFieldArray() {
+  const [form] = useForm({
+    customer: "",
+    address: { street: "", city: "" },
+    items: [{ product: "", quantity: 1 }],
+  });
+  const items = useFieldArray<{ product: string; quantity: number }>("items", form);
+
+  const validate = () => {
+    form.clearAllErrors();
+    items.fields.forEach((field) => {
+      if (!field.value.product) form.setError(`${field.path}.product`, "Product is required");
+      if (Number(field.value.quantity) < 1) form.setError(`${field.path}.quantity`, "Quantity must be at least 1");
+    });
+  };
+
+  return (
+    <div style={{ padding: "20px", maxWidth: "400px" }}>
+      <h2>Example with nested values and useFieldArray</h2>
+      <NativeInput name="customer" label="Customer" formInstance={form} />
+      <NativeInput name="address.street" label="Street" formInstance={form} />
+      <NativeInput name="address.city" label="City" formInstance={form} />
+      {items.fields.map((field) => (
+        <div key={field.key} style={{ display: "flex", gap: "8px", alignItems: "flex-start" }}>
+          <NativeInput name={`${field.path}.product`} label="Product" formInstance={form} />
+          <NativeInput name={`${field.path}.quantity`} label="Quantity" type="number" formInstance={form} />
+          <button type="button" onClick={() => items.move(field.index, field.index - 1)} disabled={field.index === 0}>
+            Up
+          </button>
+          <button type="button" onClick={() => items.remove(field.index)}>
+            Remove
+          </button>
+        </div>
+      ))}
+      <div style={{ marginTop: "16px", display: "flex", gap: "8px" }}>
+        <button type="button" onClick={() => items.append({ product: "", quantity: 1 })}>
+          Add Item
+        </button>
+        <button type="button" onClick={validate}>
+          Validate
+        </button>
+      </div>
+      <pre>Values: {JSON.stringify(form.values, null, 2)}</pre>
+      <pre>Errors: {JSON.stringify(form.errors, null, 2)}</pre>
     </div>
   );
 }
@@ -59,6 +127,7 @@ export default function FormExamples() {
 
       <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "20px" }}>
         <ExampleWithUseForm />
+        <ExampleWithFieldArray />
       </div>
     </div>
   );
@@ -0,0 +1,170 @@
+import * as React from "react";
+import { useForm } from "./core/useForm";
+import type { FormInstance } from "./core/useForm";
+import { NATIVE_INPUT_CONFIG, NativeInput } from "./FormComponents";
+
+const FIELD_COUNT = 200;
+const KEYSTROKES = 20;
+
+// A schema as wide as the widest generated entity forms
+const BENCHMARK_SCHEMA = Object.fromEntries(
+  Array.from({ length: FIELD_COUNT }, (_, index) => [
+    `field${index}`,
+    { type: "text", props: { label: `Field ${index}`, maxLength: 50 } },
+  ])
+);
+const BENCHMARK_VALUES = Object.fromEntries(Object.keys(BENCHMARK_SCHEMA).map((key) => [key, ""]));
+
+type Mode = "subscribed" | "whole-form";
+
+// Field renders per keystroke each mode should cost: the typed field alone with subscriptions, every field when
+// each one is handed the whole instance
+const EXPECTED_RENDERS_PER_KEYSTROKE: Record<Mode, number> = { subscribed: 1, "whole-form": FIELD_COUNT };
+
+interface BenchmarkResult {
+  mode: Mode;
+  fieldRenders: number; // Field re-renders while typing, summed over all fields
+  duration: number; // Time React spent rendering the fields, in ms
+}
+
+const perKeystroke = (result: BenchmarkResult) => result.fieldRenders / KEYSTROKES;
+
+// The improvement the benchmark is for: with subscriptions a keystroke renders no more than the typed field, and
+// fewer fields than with the whole-form instance
+function meetsExpectation(subscribed: BenchmarkResult, wholeForm: BenchmarkResult): boolean {
+  return (
+    perKeystroke(subscribed) <= EXPECTED_RENDERS_PER_KEYSTROKE.subscribed &&
+    perKeystroke(subscribed) < perKeystroke(wholeForm)
+  );
+}
+
+// Renders every field of the benchmark form, counting the renders of each through a Profiler. Memoized, so in
+// subscribed mode (no form prop) only the fields whose state changed render again
+const BenchmarkFields = React.memo(function BenchmarkFields({
+  renderField,
+  form,
+  onFieldRender,
+}: {
+  renderField: FormInstance<Record<string, string>>["renderField"];
+  form?: FormInstance<Record<string, string>>;
+  onFieldRender: React.ProfilerOnRenderCallback;
+}) {
+  return (
+    <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: "0 8px" }}>
+      {Object.keys(BENCHMARK_SCHEMA).map((key) => (
+        <React.Profiler key={key} id={key} onRender={onFieldRender}>
+          {form ? (
+            // Handing every field the whole instance, which changes on each keystroke, as forms did before useField
+            <NativeInput name={key} label={BENCHMARK_SCHEMA[key].props.label} formInstance={form} />
+          ) : (
+            renderField(key)
+          )}
+        </React.Profiler>
+      ))}
+    </div>
+  );
+});
+
+// Types into one field of a 200-field form and reports how many field renders each keystroke costs
+export default function FormBenchmark() {
+  const [form] = useForm(BENCHMARK_VALUES, BENCHMARK_SCHEMA, NATIVE_INPUT_CONFIG);
+  const [mode, setMode] = React.useState<Mode>("subscribed");
+  const [running, setRunning] = React.useState(false);
+  const [results, setResults] = React.useState<BenchmarkResult[]>([]);
+  const statsRef = React.useRef({ fieldRenders: 0, duration: 0 });
+
+  const onFieldRender = React.useCallback<React.ProfilerOnRenderCallback>((_id, phase, actualDuration) => {
+    if (phase !== "mount") {
+      statsRef.current.fieldRenders++;
+      statsRef.current.duration += actualDuration;
+    }
+  }, []);
+
+  const run = async (nextMode: Mode) => {
+    setRunning(true);
+    setMode(nextMode);
+    form.resetValues();
+    // Let the mode switch and reset render before measuring
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    statsRef.current = { fieldRenders: 0, duration: 0 };
+    let text = "";
+    for (let i = 0; i < KEYSTROKES; i++) {
+      text += String.fromCharCode(97 + (i % 26));
+      form.setValue("field0", text);
+      // One keystroke per task, so each one renders on its own like real typing
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    const result = { mode: nextMode, ...statsRef.current };
+    setResults((previous) => [...previous, result]);
+    setRunning(false);
+  };
+
+  // Both modes, so the check below compares runs on the same page state
+  const runBoth = async () => {
+    await run("subscribed");
+    await run("whole-form");
+  };
+
+  const latest = (mode: Mode) => results.filter((result) => result.mode === mode).pop();
+  const subscribedResult = latest("subscribed");
+  const wholeFormResult = latest("whole-form");
+
+  return (
+    <div style={{ padding: "20px" }}>
+      <h2>
+        Re-render Benchmark ({FIELD_COUNT} fields, {KEYSTROKES} keystrokes)
+      </h2>
+      <div style={{ display: "flex", gap: "8px", marginBottom: "16px" }}>
+        <button type="button" onClick={runBoth} disabled={running}>
+          Run both and check
+        </button>
+        <button type="button" onClick={() => run("subscribed")} disabled={running}>
+          Run with useField subscriptions
+        </button>
+        <button type="button" onClick={() => run("whole-form")} disabled={running}>
+          Run with whole-form instance
+        </button>
+      </div>
+      <table style={{ borderCollapse: "collapse", marginBottom: "16px" }}>
+        <thead>
+          <tr>
+            <th style={{ textAlign: "left", padding: "4px 12px" }}>Mode</th>
+            <th style={{ textAlign: "right", padding: "4px 12px" }}>Field renders</th>
+            <th style={{ textAlign: "right", padding: "4px 12px" }}>Per keystroke</th>
+            <th style={{ textAlign: "right", padding: "4px 12px" }}>Expected</th>
+            <th style={{ textAlign: "right", padding: "4px 12px" }}>Render time (ms)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((result, index) => (
+            <tr key={index}>
+              <td style={{ padding: "4px 12px" }}>{result.mode}</td>
+              <td style={{ textAlign: "right", padding: "4px 12px" }}>{result.fieldRenders}</td>
+              <td style={{ textAlign: "right", padding: "4px 12px" }}>{perKeystroke(result)}</td>
+              <td style={{ textAlign: "right", padding: "4px 12px" }}>{EXPECTED_RENDERS_PER_KEYSTROKE[result.mode]}</td>
+              <td style={{ textAlign: "right", padding: "4px 12px" }}>{result.duration.toFixed(1)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {subscribedResult && wholeFormResult && (
+        <div style={{ marginBottom: "16px" }}>
+          {meetsExpectation(subscribedResult, wholeFormResult) ? (
+            <strong style={{ color: "green" }}>PASS</strong>
+          ) : (
+            <strong style={{ color: "red" }}>FAIL</strong>
+          )}{" "}
+          useField subscriptions: {perKeystroke(subscribedResult)} field renders per keystroke against{" "}
+          {perKeystroke(wholeFormResult)} with the whole-form instance.
+        </div>
+      )}
+      <BenchmarkFields
+        renderField={form.renderField}
+        form={mode === "whole-form" ? form : undefined}
+        onFieldRender={onFieldRender}
+      />
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 /* eslint-disable react-refresh/only-export-components */
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import * as React from "react";
-import { FormContext } from "./core/useForm";
+import { useField } from "./core/useForm";
+import type { FieldSource } from "./core/useForm";
 import type { InputConfig } from "./core/FormTypes";
 
 interface FieldProps {
@@ -9,10 +9,20 @@ interface FieldProps {
   label?: string;
   helpText?: string;
   required?: boolean;
-  formInstance?: any;
+  formInstance?: FieldSource;
+  onBlur?: (event: React.FocusEvent<HTMLElement>) => void;
 }
 
-function getDefaultValue(fieldType: string): any {
+// Attributes passed through to the underlying element; the field supplies its own name, value and handlers
+type ElementProps<Attributes> = Omit<Attributes, "name" | "value" | "defaultValue" | "onChange" | "onBlur">;
+
+interface FieldOption {
+  value: string | number;
+  label: string;
+  disabled?: boolean;
+}
+
+function getDefaultValue(fieldType: string): string | number | boolean | string[] {
   switch (fieldType) {
     case "checkbox":
       return false;
@@ -21,6 +31,7 @@ function getDefaultValue(fieldType: string): any {
     case "multiselect":
       return [];
     case "select":
+    case "lookup":
     case "radio":
     case "text":
     case "email":
@@ -34,39 +45,15 @@ function getDefaultValue(fieldType: string): any {
   }
 }
 
-// Helper hook to get form state from either context or props
-function useFormState(formInstance?: any): {
-  values: any;
-  setValue: (key: string, value: any) => void;
-  getError: (key: string) => string | undefined;
-} {
-  // Always call hooks in the same order
-  const context = React.useContext(FormContext);
-
-  // If formInstance is provided (useForm hook), use it
-  if (formInstance) {
-    return {
-      values: formInstance.values,
-      setValue: formInstance.setValue,
-      getError: formInstance.getError,
-    };
-  }
-
-  // Otherwise, use context (FormProvider pattern)
-  if (context) {
-    return {
-      values: context.values,
-      setValue: context.setValue,
-      getError: context.getError,
-    };
-  }
-
-  // Fallback if neither is available
-  return {
-    values: {},
-    setValue: () => {},
-    getError: () => undefined,
-  };
+// Mark the field as touched when it loses focus, then run the caller's own onBlur
+function useTouchOnBlur(setTouched: () => void, onBlur?: (event: React.FocusEvent<HTMLElement>) => void) {
+  return React.useCallback(
+    (event: React.FocusEvent<HTMLElement>) => {
+      setTouched();
+      onBlur?.(event);
+    },
+    [setTouched, onBlur]
+  );
 }
 
 // Label Component (Single Responsibility: Label Rendering)
@@ -78,8 +65,10 @@ const FieldLabel = ({ required, children }: { htmlFor?: string; required?: boole
 );
 
 // Error Message Component (Single Responsibility: Error Display)
-const FieldError = ({ error }: { error?: string }) =>
-  error ? <div style={{ color: "red", fontSize: "12px", marginTop: "4px" }}>{error}</div> : null;
+const FieldError = ({ error, validating }: { error?: string; validating?: boolean }) => {
+  if (validating) return <div style={{ color: "#666", fontSize: "12px", marginTop: "4px" }}>Checking...</div>;
+  return error ? <div style={{ color: "red", fontSize: "12px", marginTop: "4px" }}>{error}</div> : null;
+};
 
 // Help Text Component (Single Responsibility: Help Text Display)
 const FieldHelpText = ({ helpText }: { helpText?: string }) =>
@@ -91,29 +80,33 @@ const FieldContainer = ({ children, style }: { children: React.ReactNode; style?
 );
 
 // Base Input Component (Single Responsibility: Text Input Rendering)
-export const NativeInput = ({
+export const NativeInput = React.memo(function NativeInput({
   name,
   label,
   helpText,
   required,
   formInstance,
+  onBlur,
   type = "text",
   ...rest
-}: FieldProps & Record<string, any>) => {
-  const { values, setValue, getError } = useFormState(formInstance);
+}: FieldProps & ElementProps<React.InputHTMLAttributes<HTMLInputElement>>) {
+  const { value, error, validating, setValue, setTouched } = useField(name, formInstance);
+  const handleBlur = useTouchOnBlur(setTouched, onBlur);
 
   const handleChange = React.useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
-      setValue(name, event.target.value);
+      // Number inputs hold numbers, see ControlValueTypes; a cleared one holds "" like the other inputs
+      const { value } = event.target;
+      setValue(type === "number" && value !== "" ? Number(value) : value);
     },
-    [name, setValue]
+    [setValue, type]
   );
 
   const inputId = `field-${name}`;
-  const error = getError(name);
   const hasError = !!error;
   const defaultValue = getDefaultValue(type);
-  const currentValue = values[name] !== undefined ? values[name] : defaultValue;
+  // Native inputs hold strings or numbers, see ControlValueTypes
+  const currentValue = (value !== undefined ? value : defaultValue) as string | number;
 
   return (
     <FieldContainer>
@@ -128,6 +121,7 @@ export const NativeInput = ({
         type={type}
         value={currentValue}
         onChange={handleChange}
+        onBlur={handleBlur}
         style={{
           border: hasError ? "1px solid red" : "1px solid #ccc",
           borderRadius: "4px",
@@ -137,38 +131,46 @@ export const NativeInput = ({
         }}
       />
       <FieldHelpText helpText={helpText} />
-      <FieldError error={error} />
+      <FieldError error={error} validating={validating} />
     </FieldContainer>
   );
-};
+});
 
 // Checkbox Input Component (Single Responsibility: Checkbox Input Rendering)
-export const NativeCheckbox = ({
+export const NativeCheckbox = React.memo(function NativeCheckbox({
   name,
   label,
   helpText,
   required,
   formInstance,
+  onBlur,
   ...rest
-}: FieldProps & Record<string, any>) => {
-  const { values, setValue, getError } = useFormState(formInstance);
+}: FieldProps & ElementProps<React.InputHTMLAttributes<HTMLInputElement>>) {
+  const { value, error, validating, setValue, setTouched } = useField(name, formInstance);
+  const handleBlur = useTouchOnBlur(setTouched, onBlur);
 
   const handleChange = React.useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
-      setValue(name, event.target.checked);
+      setValue(event.target.checked);
     },
-    [name, setValue]
+    [setValue]
   );
 
   const inputId = `field-${name}`;
-  const error = getError(name);
   const defaultValue = getDefaultValue("checkbox");
-  const currentValue = values[name] !== undefined ? values[name] : defaultValue;
+  const currentValue = value !== undefined ? value : defaultValue;
 
   return (
     <FieldContainer>
       <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
-        <input {...rest} id={inputId} type="checkbox" checked={!!currentValue} onChange={handleChange} />
+        <input
+          {...rest}
+          id={inputId}
+          type="checkbox"
+          checked={!!currentValue}
+          onChange={handleChange}
+          onBlur={handleBlur}
+        />
         {label && (
           <FieldLabel htmlFor={inputId} required={required}>
             {label}
@@ -176,13 +178,13 @@ export const NativeCheckbox = ({
         )}
       </div>
       <FieldHelpText helpText={helpText} />
-      <FieldError error={error} />
+      <FieldError error={error} validating={validating} />
     </FieldContainer>
   );
-};
+});
 
 // Select Dropdown Component (Single Responsibility: Select Input Rendering)
-export const NativeSelect = ({
+export const NativeSelect = React.memo(function NativeSelect({
   name,
   label,
   helpText,
@@ -190,29 +192,26 @@ export const NativeSelect = ({
   options = [],
   placeholder,
   formInstance,
+  onBlur,
   ...rest
 }: FieldProps & {
-  options?: Array<{
-    value: string | number;
-    label: string;
-    disabled?: boolean;
-  }>;
+  options?: FieldOption[];
   placeholder?: string;
-} & Record<string, any>) => {
-  const { values, setValue, getError } = useFormState(formInstance);
+} & ElementProps<React.SelectHTMLAttributes<HTMLSelectElement>>) {
+  const { value, error, validating, setValue, setTouched } = useField(name, formInstance);
+  const handleBlur = useTouchOnBlur(setTouched, onBlur);
 
   const handleChange = React.useCallback(
     (event: React.ChangeEvent<HTMLSelectElement>) => {
-      setValue(name, event.target.value);
+      setValue(event.target.value);
     },
-    [name, setValue]
+    [setValue]
   );
 
   const inputId = `field-${name}`;
-  const error = getError(name);
   const hasError = !!error;
   const defaultValue = getDefaultValue("select");
-  const currentValue = values[name] !== undefined ? values[name] : defaultValue;
+  const currentValue = (value !== undefined ? value : defaultValue) as string | number;
 
   return (
     <FieldContainer>
@@ -226,6 +225,7 @@ export const NativeSelect = ({
         id={inputId}
         value={currentValue}
         onChange={handleChange}
+        onBlur={handleBlur}
         style={{
           border: hasError ? "1px solid red" : "1px solid #ccc",
           borderRadius: "4px",
@@ -248,37 +248,38 @@ export const NativeSelect = ({
         ))}
       </select>
       <FieldHelpText helpText={helpText} />
-      <FieldError error={error} />
+      <FieldError error={error} validating={validating} />
     </FieldContainer>
   );
-};
+});
 
 // DateTime Picker Component (Single Responsibility: DateTime Input Rendering)
-export const NativeDateTimePicker = ({
+export const NativeDateTimePicker = React.memo(function NativeDateTimePicker({
   name,
   label,
   helpText,
   required,
   type = "datetime-local", // datetime-local, date, time
   formInstance,
+  onBlur,
   ...rest
 }: FieldProps & {
   type?: "datetime-local" | "date" | "time";
-} & Record<string, any>) => {
-  const { values, setValue, getError } = useFormState(formInstance);
+} & ElementProps<React.InputHTMLAttributes<HTMLInputElement>>) {
+  const { value, error, validating, setValue, setTouched } = useField(name, formInstance);
+  const handleBlur = useTouchOnBlur(setTouched, onBlur);
 
   const handleChange = React.useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
-      setValue(name, event.target.value);
+      setValue(event.target.value);
     },
-    [name, setValue]
+    [setValue]
   );
 
   const inputId = `field-${name}`;
-  const error = getError(name);
   const hasError = !!error;
   const defaultValue = getDefaultValue(type);
-  const currentValue = values[name] !== undefined ? values[name] : defaultValue;
+  const currentValue = (value !== undefined ? value : defaultValue) as string | number;
 
   return (
     <FieldContainer>
@@ -293,6 +294,7 @@ export const NativeDateTimePicker = ({
         type={type}
         value={currentValue}
         onChange={handleChange}
+        onBlur={handleBlur}
         style={{
           border: hasError ? "1px solid red" : "1px solid #ccc",
           borderRadius: "4px",
@@ -303,39 +305,36 @@ export const NativeDateTimePicker = ({
         }}
       />
       <FieldHelpText helpText={helpText} />
-      <FieldError error={error} />
+      <FieldError error={error} validating={validating} />
     </FieldContainer>
   );
-};
+});
 
 // Radio Group Component (Single Responsibility: Radio Group Rendering)
-export const NativeRadio = ({
+export const NativeRadio = React.memo(function NativeRadio({
   name,
   label,
   helpText,
   required,
   options = [],
   formInstance,
+  onBlur,
   ...rest
 }: FieldProps & {
-  options?: Array<{
-    value: string | number;
-    label: string;
-    disabled?: boolean;
-  }>;
-} & Record<string, any>) => {
-  const { values, setValue, getError } = useFormState(formInstance);
+  options?: FieldOption[];
+} & ElementProps<React.InputHTMLAttributes<HTMLInputElement>>) {
+  const { value, error, validating, setValue, setTouched } = useField(name, formInstance);
+  const handleBlur = useTouchOnBlur(setTouched, onBlur);
 
   const handleChange = React.useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
-      setValue(name, event.target.value);
+      setValue(event.target.value);
     },
-    [name, setValue]
+    [setValue]
   );
 
-  const error = getError(name);
   const defaultValue = getDefaultValue("radio");
-  const currentValue = values[name] !== undefined ? values[name] : defaultValue;
+  const currentValue = value !== undefined ? value : defaultValue;
 
   return (
     <FieldContainer>
@@ -353,6 +352,7 @@ export const NativeRadio = ({
                 value={option.value}
                 checked={currentValue === option.value}
                 onChange={handleChange}
+                onBlur={handleBlur}
                 disabled={option.disabled}
               />
               <label
@@ -370,37 +370,38 @@ export const NativeRadio = ({
         })}
       </div>
       <FieldHelpText helpText={helpText} />
-      <FieldError error={error} />
+      <FieldError error={error} validating={validating} />
     </FieldContainer>
   );
-};
+});
 
 // Textarea Component (Single Responsibility: Multi-line Text Input Rendering)
-export const NativeTextarea = ({
+export const NativeTextarea = React.memo(function NativeTextarea({
   name,
   label,
   helpText,
   required,
   rows = 4,
   formInstance,
+  onBlur,
   ...rest
 }: FieldProps & {
   rows?: number;
-} & Record<string, any>) => {
-  const { values, setValue, getError } = useFormState(formInstance);
+} & ElementProps<React.TextareaHTMLAttributes<HTMLTextAreaElement>>) {
+  const { value, error, validating, setValue, setTouched } = useField(name, formInstance);
+  const handleBlur = useTouchOnBlur(setTouched, onBlur);
 
   const handleChange = React.useCallback(
     (event: React.ChangeEvent<HTMLTextAreaElement>) => {
-      setValue(name, event.target.value);
+      setValue(event.target.value);
     },
-    [name, setValue]
+    [setValue]
   );
 
   const inputId = `field-${name}`;
-  const error = getError(name);
   const hasError = !!error;
   const defaultValue = getDefaultValue("textarea");
-  const currentValue = values[name] !== undefined ? values[name] : defaultValue;
+  const currentValue = (value !== undefined ? value : defaultValue) as string | number;
 
   return (
     <FieldContainer>
@@ -415,6 +416,7 @@ export const NativeTextarea = ({
         rows={rows}
         value={currentValue}
         onChange={handleChange}
+        onBlur={handleBlur}
         style={{
           border: hasError ? "1px solid red" : "1px solid #ccc",
           borderRadius: "4px",
@@ -427,13 +429,13 @@ export const NativeTextarea = ({
         }}
       />
       <FieldHelpText helpText={helpText} />
-      <FieldError error={error} />
+      <FieldError error={error} validating={validating} />
     </FieldContainer>
   );
-};
+});
 
 // Multi-Select Component (Single Responsibility: Native Multiple Selection Rendering)
-export const NativeMultiSelect = ({
+export const NativeMultiSelect = React.memo(function NativeMultiSelect({
   name,
   label,
   helpText,
@@ -441,37 +443,27 @@ export const NativeMultiSelect = ({
   options = [],
   size = 6,
   formInstance,
+  onBlur,
   ...rest
 }: FieldProps & {
-  options?: Array<{
-    value: string | number;
-    label: string;
-    disabled?: boolean;
-  }>;
+  options?: FieldOption[];
   size?: number;
-} & Record<string, any>) => {
-  const { values, setValue, getError } = useFormState(formInstance);
-
-  const defaultValue = getDefaultValue("multiselect");
-  const currentValues = React.useMemo(() => {
-    const value = values[name];
-    if (value !== undefined) {
-      return Array.isArray(value) ? value : [];
-    }
-    return defaultValue;
-  }, [values, name, defaultValue]);
+} & ElementProps<React.SelectHTMLAttributes<HTMLSelectElement>>) {
+  const { value, error, validating, setValue, setTouched } = useField(name, formInstance);
+  const handleBlur = useTouchOnBlur(setTouched, onBlur);
+
+  const currentValues = React.useMemo(() => (Array.isArray(value) ? value : []), [value]);
 
   const handleChange = React.useCallback(
     (event: React.ChangeEvent<HTMLSelectElement>) => {
       const selectedOptions = Array.from(event.target.selectedOptions);
       const selectedValues = selectedOptions.map((option) => option.value);
-      setValue(name, selectedValues);
+      setValue(selectedValues);
     },
-    [name, setValue]
+    [setValue]
   );
 
   const inputId = `field-${name}`;
-  const error = getError(name);
   const hasError = !!error;
 
   return (
@@ -488,6 +480,7 @@ export const NativeMultiSelect = ({
         size={size}
         value={currentValues}
         onChange={handleChange}
+        onBlur={handleBlur}
         style={{
           border: hasError ? "1px solid red" : "1px solid #ccc",
           borderRadius: "4px",
@@ -505,13 +498,203 @@ export const NativeMultiSelect = ({
         ))}
       </select>
       <FieldHelpText helpText={helpText} />
-      <FieldError error={error} />
+      <FieldError error={error} validating={validating} />
     </FieldContainer>
   );
-};
+});
+
+// Lookup Component (Single Responsibility: Searchable Async Reference Selection)
+export const NativeLookup = React.memo(function NativeLookup({
+  name,
+  label,
+  helpText,
+  required,
+  placeholder,
+  labelField,
+  valueField,
+  search,
+  fetchByValue,
+  debounceMs = 300,
+  formInstance,
+  onBlur,
+  ...rest
+}: FieldProps & {
+  placeholder?: string;
+  labelField: string;
+  valueField: string;
+  // Returns candidate records for the typed term; must honour the abort signal
+  search: (term: string, signal: AbortSignal) => Promise<Record<string, unknown>[]>;
+  // Returns the record for the current value so its label can be shown
+  fetchByValue?: (value: unknown, signal: AbortSignal) => Promise<Record<string, unknown> | null>;
+  debounceMs?: number;
+} & ElementProps<React.InputHTMLAttributes<HTMLInputElement>>) {
+  const { value, error, validating, setValue, setTouched } = useField(name, formInstance);
+  const handleBlur = useTouchOnBlur(setTouched, onBlur);
+  const [term, setTerm] = React.useState("");
+  const [isOpen, setIsOpen] = React.useState(false);
+  const [isSearching, setIsSearching] = React.useState(false);
+  const [results, setResults] = React.useState<Record<string, unknown>[]>([]);
+  const [selectedLabel, setSelectedLabel] = React.useState<string | null>(null);
+
+  const currentValue = value !== undefined ? value : getDefaultValue("lookup");
+  const hasValue = currentValue !== "" && currentValue !== null && currentValue !== undefined;
+
+  // The latest search results for the label effect, which should not rerun for new results: picking one already
+  // sets the label
+  const resultsRef = React.useRef(results);
+  React.useEffect(() => {
+    resultsRef.current = results;
+  }, [results]);
+
+  // Resolve the label of a value that was set from outside (initial values, reset, edit forms)
+  React.useEffect(() => {
+    if (!hasValue) {
+      setSelectedLabel(null);
+      return;
+    }
+    const known = resultsRef.current.find((record) => record[valueField] === currentValue);
+    if (known) {
+      setSelectedLabel(String(known[labelField] ?? currentValue));
+      return;
+    }
+    if (!fetchByValue) {
+      setSelectedLabel(String(currentValue));
+      return;
+    }
+
+    const controller = new AbortController();
+    fetchByValue(currentValue, controller.signal)
+      .then((record) => setSelectedLabel(record ? String(record[labelField] ?? currentValue) : String(currentValue)))
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          console.error(`Error loading lookup value for ${name}:`, err);
+          setSelectedLabel(String(currentValue));
+        }
+      });
+    return () => controller.abort();
+  }, [currentValue, hasValue, fetchByValue, labelField, valueField, name]);
+
+  // Debounced search; a newer term aborts the request for the previous one
+  React.useEffect(() => {
+    if (!isOpen) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setIsSearching(true);
+      search(term, controller.signal)
+        .then((records) => setResults(records))
+        .catch((err) => {
+          if (!controller.signal.aborted) {
+            console.error(`Error searching lookup ${name}:`, err);
+            setResults([]);
+          }
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsSearching(false);
+        });
+    }, debounceMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [term, isOpen, search, debounceMs, name]);
+
+  const handleSelect = React.useCallback(
+    (record: Record<string, unknown>) => {
+      setValue(record[valueField]);
+      setSelectedLabel(String(record[labelField] ?? record[valueField]));
+      setTerm("");
+      setIsOpen(false);
+    },
+    [setValue, labelField, valueField]
+  );
+
+  const inputId = `field-${name}`;
+  const hasError = !!error;
+
+  return (
+    <FieldContainer style={{ position: "relative" }}>
+      {label && (
+        <FieldLabel htmlFor={inputId} required={required}>
+          {label}
+        </FieldLabel>
+      )}
+      <div style={{ display: "flex", gap: "4px" }}>
+        <input
+          {...rest}
+          id={inputId}
+          type="text"
+          autoComplete="off"
+          value={isOpen ? term : selectedLabel || ""}
+          placeholder={placeholder}
+          onFocus={() => setIsOpen(true)}
+          onBlur={(event) => {
+            setIsOpen(false);
+            handleBlur(event);
+          }}
+          onChange={(event) => setTerm(event.target.value)}
+          style={{
+            border: hasError ? "1px solid red" : "1px solid #ccc",
+            borderRadius: "4px",
+            padding: "8px",
+            width: "100%",
+            fontSize: "14px",
+            ...rest.style,
+          }}
+        />
+        {hasValue && !required && (
+          <button type="button" onClick={() => setValue("")} title="Clear">
+            ×
+          </button>
+        )}
+      </div>
+      {isOpen && (
+        <div
+          style={{
+            position: "absolute",
+            zIndex: 10,
+            left: 0,
+            right: 0,
+            maxHeight: "200px",
+            overflowY: "auto",
+            backgroundColor: "white",
+            border: "1px solid #ccc",
+            borderRadius: "4px",
+            boxShadow: "0 2px 4px rgba(0,0,0,0.1)",
+          }}
+        >
+          {isSearching && <div style={{ padding: "8px", color: "#666" }}>Searching...</div>}
+          {!isSearching && results.length === 0 && <div style={{ padding: "8px", color: "#666" }}>No matches</div>}
+          {!isSearching &&
+            results.map((record, index) => (
+              <div
+                key={`${record[valueField]}-${index}`}
+                // mousedown fires before the input's blur closes the list
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  handleSelect(record);
+                }}
+                style={{
+                  padding: "8px",
+                  cursor: "pointer",
+                  backgroundColor: record[valueField] === currentValue ? "#e9f2ff" : "white",
+                }}
+              >
+                {String(record[labelField] ?? record[valueField])}
+              </div>
+            ))}
+        </div>
+      )}
+      <FieldHelpText helpText={helpText} />
+      <FieldError error={error} validating={validating} />
+    </FieldContainer>
+  );
+});
 
 export { createInputFactory as createFormFactory } from "./core/FormTypes";
-export const NATIVE_INPUT_CONFIG: InputConfig = {
+// Declared with satisfies rather than as InputConfig, so defineSchema sees each control's component props
+export const NATIVE_INPUT_CONFIG = {
   components: {
     text: NativeInput,
     number: NativeInput,
@@ -525,6 +708,7 @@ export const NATIVE_INPUT_CONFIG: InputConfig = {
     radio: NativeRadio,
     textarea: NativeTextarea,
     multiselect: NativeMultiSelect,
+    lookup: NativeLookup,
   },
   defaultComponent: NativeInput,
-};
+} satisfies InputConfig;
@@ -0,0 +1,87 @@
+import * as React from "react";
+import type { ResolvedSection, ResolvedTab } from "./core/FormLayout";
+
+interface FormLayoutViewProps {
+  tabs: ResolvedTab[];
+  renderField: (key: string) => React.ReactElement | null;
+  // Whether a field has an error to display, to flag tabs that need attention
+  hasError?: (key: string) => boolean;
+}
+
+// Layout Component (Single Responsibility: Arranging Fields)
+export default function FormLayoutView({ tabs, renderField, hasError }: FormLayoutViewProps) {
+  const [activeTab, setActiveTab] = React.useState(0);
+
+  const renderSection = (section: ResolvedSection, index: number) => {
+    const cells = section.fields.flatMap(({ field, span }) => {
+      // Fields hidden by visibleWhen take no grid cell
+      const element = renderField(field);
+      return element
+        ? [
+            <div key={field} style={{ gridColumn: `span ${span}`, minWidth: 0 }}>
+              {element}
+            </div>,
+          ]
+        : [];
+    });
+    if (cells.length === 0) return null;
+
+    const grid = (
+      <div style={{ display: "grid", gridTemplateColumns: `repeat(${section.columns}, 1fr)`, columnGap: "16px" }}>
+        {cells}
+      </div>
+    );
+    if (!section.title) {
+      return <div key={index}>{grid}</div>;
+    }
+    return (
+      <fieldset
+        key={index}
+        style={{ border: "1px solid #ddd", borderRadius: "4px", padding: "12px", marginBottom: "16px" }}
+      >
+        <legend style={{ fontWeight: "500", padding: "0 4px" }}>{section.title}</legend>
+        {section.description && (
+          <div style={{ color: "#666", fontSize: "12px", marginBottom: "8px" }}>{section.description}</div>
+        )}
+        {grid}
+      </fieldset>
+    );
+  };
+
+  if (tabs.length === 1 && !tabs[0].title) {
+    return <>{tabs[0].sections.map(renderSection)}</>;
+  }
+
+  const current = Math.min(activeTab, tabs.length - 1);
+  return (
+    <div>
+      <div role="tablist" style={{ display: "flex", gap: "4px", borderBottom: "1px solid #ddd", marginBottom: "16px" }}>
+        {tabs.map((tab, index) => {
+          const tabHasError =
+            !!hasError && tab.sections.some((section) => section.fields.some(({ field }) => hasError(field)));
+          return (
+            <button
+              key={index}
+              type="button"
+              role="tab"
+              aria-selected={index === current}
+              onClick={() => setActiveTab(index)}
+              style={{
+                padding: "8px 16px",
+                border: "none",
+                borderBottom: index === current ? "2px solid #007bff" : "2px solid transparent",
+                backgroundColor: "transparent",
+                fontWeight: index === current ? "500" : "normal",
+                cursor: "pointer",
+              }}
+            >
+              {tab.title}
+              {tabHasError && <span style={{ color: "red", marginLeft: "4px" }}>*</span>}
+            </button>
+          );
+        })}
+      </div>
+      <div role="tabpanel">{tabs[current].sections.map(renderSection)}</div>
+    </div>
+  );
+}
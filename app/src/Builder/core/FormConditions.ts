@@ -0,0 +1,299 @@
+import { getIn, mapItems, parsePath, setIn, unsetIn } from "./FormPath";
+
+export type CompareOperator = "eq" | "ne" | "gt" | "ge" | "lt" | "le";
+
+// A declarative test against the current values; plain objects so schemas stay serializable, or a function
+export type FieldCondition =
+  | { field: string; operator: CompareOperator | "in" | "empty" | "notEmpty"; value?: unknown }
+  | { all: FieldCondition[] }
+  | { any: FieldCondition[] }
+  | { not: FieldCondition }
+  | ((values: Record<string, unknown>) => boolean);
+
+// A formula over other fields, e.g. "Quantity * UnitPrice - Discount", or a function of the values
+export type ComputedExpression = string | ((values: Record<string, unknown>) => unknown);
+
+// Schema entries may declare these next to type and props
+export interface FieldConditions {
+  visibleWhen?: FieldCondition;
+  disabledWhen?: FieldCondition;
+  requiredWhen?: FieldCondition;
+  // The field's value is derived from the others and kept up to date by the form; the input is read-only
+  computed?: ComputedExpression;
+}
+
+export function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+export function compareValues(left: unknown, right: unknown, operator: CompareOperator): boolean {
+  // Compare numerically when both sides look like numbers, so "10" > "9"
+  const bothNumeric = !isEmptyValue(left) && !isEmptyValue(right) && !isNaN(Number(left)) && !isNaN(Number(right));
+  // Anything else compares as the primitive it is; mismatched types are never equal and never ordered
+  const a = (bothNumeric ? Number(left) : left) as string | number;
+  const b = (bothNumeric ? Number(right) : right) as string | number;
+  switch (operator) {
+    case "eq":
+      return a === b;
+    case "ne":
+      return a !== b;
+    case "gt":
+      return a > b;
+    case "ge":
+      return a >= b;
+    case "lt":
+      return a < b;
+    case "le":
+      return a <= b;
+  }
+}
+
+export function evaluateCondition(condition: FieldCondition, values: object): boolean {
+  if (typeof condition === "function") return !!condition(values as Record<string, unknown>);
+  if ("all" in condition) return condition.all.every((inner) => evaluateCondition(inner, values));
+  if ("any" in condition) return condition.any.some((inner) => evaluateCondition(inner, values));
+  if ("not" in condition) return !evaluateCondition(condition.not, values);
+
+  const value = getIn(values, condition.field);
+  switch (condition.operator) {
+    case "empty":
+      return isEmptyValue(value);
+    case "notEmpty":
+      return !isEmptyValue(value);
+    case "in":
+      return Array.isArray(condition.value) && condition.value.some((option) => compareValues(value, option, "eq"));
+    default:
+      return compareValues(value, condition.value, condition.operator);
+  }
+}
+
+type FormulaNode =
+  | { kind: "number"; value: number }
+  | { kind: "field"; path: string }
+  | { kind: "negate"; operand: FormulaNode }
+  | { kind: "binary"; operator: string; left: FormulaNode; right: FormulaNode };
+
+const formulaCache = new Map<string, FormulaNode>();
+const formulaErrors = new Map<string, string>();
+
+// Parse a formula of numbers, field paths, + - * / and parentheses, with the usual precedence
+export function parseFormula(formula: string): FormulaNode {
+  const cached = formulaCache.get(formula);
+  if (cached) return cached;
+  const error = formulaErrors.get(formula);
+  if (error) throw new Error(error);
+
+  const tokens = formula.match(/\d+(?:\.\d+)?|[A-Za-z_][\w.[\]]*|[-+*/()]|\S/g) || [];
+  let position = 0;
+  const peek = () => tokens[position];
+  const fail = (message: string): never => {
+    const error = `Invalid formula "${formula}": ${message}`;
+    formulaErrors.set(formula, error);
+    throw new Error(error);
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[position++];
+    if (token === undefined) return fail("unexpected end");
+    if (token === "-") return { kind: "negate", operand: parsePrimary() };
+    if (token === "(") {
+      const inner = parseSum();
+      if (tokens[position++] !== ")") fail("missing )");
+      return inner;
+    }
+    if (/^\d/.test(token)) return { kind: "number", value: parseFloat(token) };
+    if (/^[A-Za-z_]/.test(token) && parsePath(token).length > 0) return { kind: "field", path: token };
+    return fail(`unexpected "${token}"`);
+  };
+
+  const parseProduct = (): FormulaNode => {
+    let node = parsePrimary();
+    while (peek() === "*" || peek() === "/") {
+      const operator = tokens[position++];
+      node = { kind: "binary", operator, left: node, right: parsePrimary() };
+    }
+    return node;
+  };
+
+  const parseSum = (): FormulaNode => {
+    let node = parseProduct();
+    while (peek() === "+" || peek() === "-") {
+      const operator = tokens[position++];
+      node = { kind: "binary", operator, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+
+  const node = parseSum();
+  if (position < tokens.length) fail(`unexpected "${peek()}"`);
+  formulaCache.set(formula, node);
+  return node;
+}
+
+// Why a formula does not parse, or undefined when it does
+export function getFormulaError(formula: string): string | undefined {
+  if (formulaErrors.has(formula)) return formulaErrors.get(formula);
+  try {
+    parseFormula(formula);
+    return undefined;
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
+
+function evaluateFormula(node: FormulaNode, values: object): number {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "field": {
+      // Fields not filled in yet count as 0 so a total appears as soon as its first operand does
+      const value = getIn(values, node.path);
+      return isEmptyValue(value) ? 0 : Number(value);
+    }
+    case "negate":
+      return -evaluateFormula(node.operand, values);
+    case "binary": {
+      const left = evaluateFormula(node.left, values);
+      const right = evaluateFormula(node.right, values);
+      switch (node.operator) {
+        case "+":
+          return left + right;
+        case "-":
+          return left - right;
+        case "*":
+          return left * right;
+        default:
+          return left / right;
+      }
+    }
+  }
+}
+
+export function evaluateComputed(expression: ComputedExpression, values: object): unknown {
+  if (typeof expression === "function") return expression(values as Record<string, unknown>);
+  const result = evaluateFormula(parseFormula(expression), values);
+  if (!isFinite(result)) return "";
+  // Round away floating point noise such as 3 * 1.1 = 3.3000000000000003
+  return Math.round(result * 1e10) / 1e10;
+}
+
+// Fields with items hold rows, each evaluated against that schema on its own, see ValidationSchema
+type ConditionalSchema = Record<string, FieldConditions & { items?: ConditionalSchema }>;
+
+const CONDITION_OPERATORS: unknown[] = ["eq", "ne", "gt", "ge", "lt", "le", "in", "empty", "notEmpty"];
+
+// Add the problems of a condition to issues, e.g. "Total.visibleWhen.operator: must be one of ..."; functions are
+// accepted unless allowFunctions is false, as for conditions that have to survive JSON
+export function checkCondition(condition: unknown, path: string, issues: string[], allowFunctions = true) {
+  if (typeof condition === "function" && allowFunctions) return;
+  if (!condition || typeof condition !== "object" || Array.isArray(condition)) {
+    issues.push(`${path}: must be an object`);
+    return;
+  }
+  const entry = condition as Record<string, unknown>;
+  if ("all" in entry || "any" in entry) {
+    const key = "all" in entry ? "all" : "any";
+    const inner = entry[key];
+    if (!Array.isArray(inner)) {
+      issues.push(`${path}.${key}: must be an array`);
+    } else {
+      inner.forEach((item, index) => checkCondition(item, `${path}.${key}[${index}]`, issues, allowFunctions));
+    }
+  } else if ("not" in entry) {
+    checkCondition(entry.not, `${path}.not`, issues, allowFunctions);
+  } else {
+    if (typeof entry.field !== "string") issues.push(`${path}.field: must be a string`);
+    if (!CONDITION_OPERATORS.includes(entry.operator)) {
+      issues.push(`${path}.operator: must be one of ${CONDITION_OPERATORS.join(", ")}`);
+    }
+    if (entry.operator === "in" && !Array.isArray(entry.value)) issues.push(`${path}.value: must be an array`);
+  }
+}
+
+// Problems with the conditions and formulas of a schema, listed once when it is configured; a field with one is
+// treated as having no such condition or formula, so they never throw while the user types
+export function findConditionIssues(schema: ConditionalSchema): string[] {
+  const issues: string[] = [];
+  Object.entries(schema).forEach(([key, field]) => {
+    (["visibleWhen", "disabledWhen", "requiredWhen"] as const).forEach((name) => {
+      if (field[name] !== undefined) checkCondition(field[name], `${key}.${name}`, issues);
+    });
+    if (typeof field.computed === "string") {
+      const error = getFormulaError(field.computed);
+      if (error) issues.push(`${key}.computed: ${error}`);
+    } else if (field.computed !== undefined && typeof field.computed !== "function") {
+      issues.push(`${key}.computed: must be a formula string or a function`);
+    }
+    if (field.items) issues.push(...findConditionIssues(field.items).map((issue) => `${key}.items.${issue}`));
+  });
+  return issues;
+}
+
+const malformedConditions = new WeakMap<object, boolean>();
+
+// A condition that checkCondition would reject, skipped when evaluating
+function isMalformedCondition(condition: FieldCondition): boolean {
+  if (!condition || typeof condition !== "object") return typeof condition !== "function";
+  let malformed = malformedConditions.get(condition);
+  if (malformed === undefined) {
+    const issues: string[] = [];
+    checkCondition(condition, "", issues);
+    malformed = issues.length > 0;
+    malformedConditions.set(condition, malformed);
+  }
+  return malformed;
+}
+
+export function isFieldVisible(definition: FieldConditions | undefined, values: object): boolean {
+  const condition = definition?.visibleWhen;
+  return !condition || isMalformedCondition(condition) || evaluateCondition(condition, values);
+}
+
+export function isFieldDisabled(definition: FieldConditions | undefined, values: object): boolean {
+  const condition = definition?.disabledWhen;
+  return !!condition && !isMalformedCondition(condition) && evaluateCondition(condition, values);
+}
+
+export function isFieldRequired(definition: FieldConditions | undefined, values: object): boolean {
+  const condition = definition?.requiredWhen;
+  return !!condition && !isMalformedCondition(condition) && evaluateCondition(condition, values);
+}
+
+// Props a field gets from its conditions at the current values, merged over its static props when rendering
+export function getConditionalProps(definition: FieldConditions, values: object): Record<string, boolean> {
+  return {
+    ...(isFieldDisabled(definition, values) && { disabled: true }),
+    ...(isFieldRequired(definition, values) && { required: true }),
+    ...(definition.computed !== undefined && { readOnly: true }),
+  };
+}
+
+export function getHiddenFields(schema: ConditionalSchema, values: object): string[] {
+  return Object.keys(schema).filter((field) => !isFieldVisible(schema[field], values));
+}
+
+// Copy of values without the fields hidden at those values, e.g. for the payload sent to the server; rows drop
+// the fields hidden at the row's values
+export function omitHiddenFields<T extends object>(values: T, schema: ConditionalSchema): T {
+  const hidden = getHiddenFields(schema, values);
+  return Object.keys(schema).reduce((result, field) => {
+    const { items } = schema[field];
+    if (hidden.includes(field)) return unsetIn(result, field);
+    return items ? mapItems(result, field, (row) => omitHiddenFields(row, items)) : result;
+  }, values);
+}
+
+// Fill in the computed fields in schema order, those of each row first, returning values itself when none changed
+export function applyComputedValues<T extends object>(values: T, schema: ConditionalSchema | undefined): T {
+  if (!schema) return values;
+  return Object.keys(schema).reduce((current, field) => {
+    const { items, computed: expression } = schema[field];
+    const result = items ? mapItems(current, field, (row) => applyComputedValues(row, items)) : current;
+    // A formula that does not parse leaves the field as it is; findConditionIssues reports it
+    if (typeof expression !== "function" && (typeof expression !== "string" || getFormulaError(expression))) {
+      return result;
+    }
+    const value = evaluateComputed(expression, result);
+    return Object.is(getIn(result, field), value) ? result : setIn(result, field, value);
+  }, values);
+}
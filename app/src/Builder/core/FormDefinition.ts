@@ -0,0 +1,334 @@
+import { getIn, setIn } from "./FormPath";
+import type { ValidationRule, ValidationSchema } from "./FormValidation";
+import { checkCondition, getFormulaError } from "./FormConditions";
+import type { CompareOperator, FieldCondition } from "./FormConditions";
+import type { FormLayout } from "./FormLayout";
+
+// Version of the FormDefinition format; bump it, and migrate older definitions in parseFormDefinition, when the
+// format changes incompatibly
+export const FORM_DEFINITION_VERSION = 1;
+
+// Conditions without functions, so they survive JSON.stringify
+export type SerializableCondition =
+  | { field: string; operator: CompareOperator | "in" | "empty" | "notEmpty"; value?: unknown }
+  | { all: SerializableCondition[] }
+  | { any: SerializableCondition[] }
+  | { not: SerializableCondition };
+
+// Rules without functions or RegExp objects; custom and async rules have to be attached in code
+export type SerializableRule =
+  | Exclude<ValidationRule, { type: "custom" } | { type: "async" } | { type: "pattern" }>
+  | {
+      type: "pattern";
+      value: string;
+      flags?: string; // Of the RegExp the pattern came from, e.g. "i"
+      message?: string;
+    };
+
+export interface FieldDefinition {
+  type: string; // Control type resolved through InputConfig.components, e.g. "text", "select", "lookup"
+  props?: Record<string, unknown>; // label, helpText, placeholder, options, ...
+  rules?: SerializableRule[];
+  defaultValue?: unknown;
+  visibleWhen?: SerializableCondition;
+  disabledWhen?: SerializableCondition;
+  requiredWhen?: SerializableCondition;
+  computed?: string; // Formula, e.g. "Quantity * UnitPrice - Discount"
+}
+
+// A form as plain JSON: fields in display order, keyed by value path ("address.city" for nested values)
+export interface FormDefinition {
+  version: typeof FORM_DEFINITION_VERSION;
+  title?: string;
+  description?: string;
+  fields: Record<string, FieldDefinition>;
+  layout?: FormLayout;
+}
+
+export class FormDefinitionError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid form definition:\n${issues.join("\n")}`);
+    this.name = "FormDefinitionError";
+    this.issues = issues;
+  }
+}
+
+const RULE_TYPES: unknown[] = [
+  "required",
+  "minLength",
+  "maxLength",
+  "min",
+  "max",
+  "pattern",
+  "email",
+  "integer",
+  "compare",
+];
+const NUMERIC_RULES: unknown[] = ["minLength", "maxLength", "min", "max"];
+const COMPARE_OPERATORS: unknown[] = ["eq", "ne", "gt", "ge", "lt", "le"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+function checkRule(rule: unknown, path: string, fieldKeys: string[], issues: string[]) {
+  if (!isObject(rule)) {
+    issues.push(`${path}: must be an object`);
+    return;
+  }
+  if (!RULE_TYPES.includes(rule.type)) {
+    issues.push(`${path}.type: must be one of ${RULE_TYPES.join(", ")}`);
+    return;
+  }
+  if (NUMERIC_RULES.includes(rule.type) && typeof rule.value !== "number") {
+    issues.push(`${path}.value: must be a number`);
+  }
+  if (rule.type === "pattern") {
+    if (rule.flags !== undefined && typeof rule.flags !== "string") {
+      issues.push(`${path}.flags: must be a string`);
+    } else if (typeof rule.value !== "string") {
+      issues.push(`${path}.value: must be a string`);
+    } else {
+      try {
+        new RegExp(rule.value, rule.flags);
+      } catch {
+        issues.push(`${path}.value: is not a valid regular expression`);
+      }
+    }
+  }
+  if (rule.type === "compare") {
+    if (typeof rule.field !== "string" || !fieldKeys.includes(rule.field))
+      issues.push(`${path}.field: "${rule.field}" is not a field of the form`);
+    if (!COMPARE_OPERATORS.includes(rule.operator)) {
+      issues.push(`${path}.operator: must be one of ${COMPARE_OPERATORS.join(", ")}`);
+    }
+  }
+  if (rule.message !== undefined && typeof rule.message !== "string") issues.push(`${path}.message: must be a string`);
+}
+
+function checkLayout(layout: unknown, fieldKeys: string[], issues: string[]) {
+  if (!isObject(layout)) {
+    issues.push("layout: must be an object");
+    return;
+  }
+  const checkColumns = (columns: unknown, path: string) => {
+    if (columns !== undefined && !isPositiveInteger(columns)) {
+      issues.push(`${path}.columns: must be a positive integer`);
+    }
+  };
+  checkColumns(layout.columns, "layout");
+  const checkSections = (sections: unknown, path: string) => {
+    if (!Array.isArray(sections)) {
+      issues.push(`${path}: must be an array`);
+      return;
+    }
+    sections.forEach((section: unknown, index: number) => {
+      const sectionPath = `${path}[${index}]`;
+      if (!isObject(section) || !Array.isArray(section.fields)) {
+        issues.push(`${sectionPath}.fields: must be an array`);
+        return;
+      }
+      checkColumns(section.columns, sectionPath);
+      section.fields.forEach((item: unknown, itemIndex: number) => {
+        const field = typeof item === "string" ? item : isObject(item) ? item.field : undefined;
+        if (typeof field !== "string" || !fieldKeys.includes(field)) {
+          issues.push(`${sectionPath}.fields[${itemIndex}]: "${field}" is not a field of the form`);
+        }
+        if (isObject(item) && item.span !== undefined && !isPositiveInteger(item.span)) {
+          issues.push(`${sectionPath}.fields[${itemIndex}].span: must be a positive integer`);
+        }
+      });
+    });
+  };
+  if (layout.sections !== undefined) checkSections(layout.sections, "layout.sections");
+  if (layout.tabs !== undefined) {
+    if (!Array.isArray(layout.tabs)) {
+      issues.push("layout.tabs: must be an array");
+    } else {
+      layout.tabs.forEach((tab: unknown, index: number) => {
+        if (!isObject(tab) || typeof tab.title !== "string")
+          issues.push(`layout.tabs[${index}].title: must be a string`);
+        checkSections(isObject(tab) ? tab.sections : undefined, `layout.tabs[${index}].sections`);
+      });
+    }
+  }
+}
+
+// Check that a value is a FormDefinition of the current version; returns the problems found, by path
+export function validateFormDefinition(value: unknown): string[] {
+  const issues: string[] = [];
+  if (!isObject(value)) {
+    return ["Form definition must be an object"];
+  }
+  if (value.version !== FORM_DEFINITION_VERSION) {
+    issues.push(`version: expected ${FORM_DEFINITION_VERSION}, got ${JSON.stringify(value.version)}`);
+  }
+  if (value.title !== undefined && typeof value.title !== "string") issues.push("title: must be a string");
+  if (!isObject(value.fields)) {
+    issues.push("fields: must be an object");
+    return issues;
+  }
+
+  const fieldKeys = Object.keys(value.fields);
+  Object.entries(value.fields).forEach(([key, field]) => {
+    const path = `fields.${key}`;
+    if (!isObject(field)) {
+      issues.push(`${path}: must be an object`);
+      return;
+    }
+    if (typeof field.type !== "string" || !field.type) issues.push(`${path}.type: must be a non-empty string`);
+    if (field.props !== undefined && !isObject(field.props)) issues.push(`${path}.props: must be an object`);
+    if (field.rules !== undefined) {
+      if (!Array.isArray(field.rules)) {
+        issues.push(`${path}.rules: must be an array`);
+      } else {
+        field.rules.forEach((rule: unknown, index: number) =>
+          checkRule(rule, `${path}.rules[${index}]`, fieldKeys, issues)
+        );
+      }
+    }
+    (["visibleWhen", "disabledWhen", "requiredWhen"] as const).forEach((name) => {
+      if (field[name] !== undefined) checkCondition(field[name], `${path}.${name}`, issues, false);
+    });
+    if (field.computed !== undefined) {
+      if (typeof field.computed !== "string") {
+        issues.push(`${path}.computed: must be a formula string`);
+      } else {
+        const error = getFormulaError(field.computed);
+        if (error) issues.push(`${path}.computed: ${error}`);
+      }
+    }
+  });
+
+  if (value.layout !== undefined) checkLayout(value.layout, fieldKeys, issues);
+  return issues;
+}
+
+// Parse and validate a stored definition, throwing a FormDefinitionError listing every problem
+export function parseFormDefinition(input: string | unknown): FormDefinition {
+  const value = typeof input === "string" ? JSON.parse(input) : input;
+  const issues = validateFormDefinition(value);
+  if (issues.length > 0) {
+    throw new FormDefinitionError(issues);
+  }
+  return value as FormDefinition;
+}
+
+// The value a control starts from when the definition gives no default
+function getEmptyValue(type: string): unknown {
+  switch (type) {
+    case "checkbox":
+      return false;
+    case "number":
+      return 0;
+    case "multiselect":
+      return [];
+    default:
+      return "";
+  }
+}
+
+// Turn a definition into what useForm and initFromJson take
+export function fromFormDefinition(definition: FormDefinition): {
+  schema: ValidationSchema;
+  initialValues: Record<string, unknown>;
+  layout?: FormLayout;
+} {
+  const schema: ValidationSchema = {};
+  let initialValues: Record<string, unknown> = {};
+  Object.entries(definition.fields).forEach(([key, { defaultValue, props, rules, ...field }]) => {
+    schema[key] = { ...field, props: props || {}, ...(rules && { rules: rules.map(toValidationRule) }) };
+    initialValues = setIn(initialValues, key, defaultValue !== undefined ? defaultValue : getEmptyValue(field.type));
+  });
+  return { schema, initialValues, layout: definition.layout };
+}
+
+// A stored rule as validateField takes it: patterns with flags become the RegExp they were saved from
+function toValidationRule(rule: SerializableRule): ValidationRule {
+  if (rule.type !== "pattern" || !rule.flags) return rule;
+  const { flags, value, ...pattern } = rule;
+  return { ...pattern, value: new RegExp(value, flags) };
+}
+
+function containsFunction(value: unknown): boolean {
+  if (typeof value === "function") return true;
+  if (value && typeof value === "object") return Object.values(value).some(containsFunction);
+  return false;
+}
+
+// Turn a schema back into a definition. Function props, conditions and computed values, custom and async rules,
+// parse/format transforms and row items cannot be serialized and are left out with a warning naming each of them;
+// RegExp patterns are stored as their source and flags
+export function toFormDefinition(
+  schema: ValidationSchema,
+  {
+    initialValues,
+    layout,
+    title,
+  }: { initialValues?: Record<string, unknown>; layout?: FormLayout; title?: string } = {}
+): FormDefinition {
+  const fields: Record<string, FieldDefinition> = {};
+  Object.entries(schema).forEach(([key, definition]) => {
+    const { type, props, rules, visibleWhen, disabledWhen, requiredWhen, computed } = definition;
+    const field: FieldDefinition = { type };
+    (["parse", "format"] as const).forEach((name) => {
+      if (definition[name]) console.warn(`toFormDefinition: the ${name} transform of ${key} was left out`);
+    });
+    if (definition.items) console.warn(`toFormDefinition: the items of ${key} were left out`);
+    const serializableProps = Object.fromEntries(
+      Object.entries(props || {}).filter(([name, value]) => {
+        if (typeof value !== "function") return true;
+        console.warn(`toFormDefinition: ${key}.props.${name} is a function and was left out`);
+        return false;
+      })
+    );
+    if (Object.keys(serializableProps).length > 0) field.props = serializableProps;
+
+    const serializableRules = (rules || []).flatMap((rule): SerializableRule[] => {
+      if (rule.type === "custom" || rule.type === "async") {
+        console.warn(`toFormDefinition: the ${rule.type} rule of ${key} was left out`);
+        return [];
+      }
+      if (rule.type === "pattern") {
+        if (typeof rule.value === "string") return [{ ...rule, value: rule.value }];
+        const { source, flags } = rule.value;
+        return [{ ...rule, value: source, ...(flags && { flags }) }];
+      }
+      return [rule];
+    });
+    if (serializableRules.length > 0) field.rules = serializableRules;
+
+    const conditions = { visibleWhen, disabledWhen, requiredWhen };
+    (Object.keys(conditions) as Array<keyof typeof conditions>).forEach((name) => {
+      const condition: FieldCondition | undefined = conditions[name];
+      if (condition === undefined) return;
+      if (containsFunction(condition)) {
+        console.warn(`toFormDefinition: the ${name} function of ${key} was left out`);
+      } else {
+        field[name] = condition as SerializableCondition;
+      }
+    });
+    if (typeof computed === "string") {
+      field.computed = computed;
+    } else if (computed) {
+      console.warn(`toFormDefinition: the computed function of ${key} was left out`);
+    }
+
+    const defaultValue = initialValues ? getIn(initialValues, key) : undefined;
+    if (defaultValue !== undefined) field.defaultValue = defaultValue;
+    fields[key] = field;
+  });
+
+  return {
+    version: FORM_DEFINITION_VERSION,
+    ...(title && { title }),
+    fields,
+    ...(layout && { layout }),
+  };
+}
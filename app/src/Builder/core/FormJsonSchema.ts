@@ -0,0 +1,299 @@
+import { FORM_DEFINITION_VERSION, parseFormDefinition } from "./FormDefinition";
+import type { FieldDefinition, FormDefinition, SerializableRule } from "./FormDefinition";
+import { getFieldRules } from "./FormValidation";
+
+export const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+// A JSON Schema document or subschema; only the keywords used for forms are typed
+export interface JsonSchema {
+  $schema?: string;
+  $defs?: Record<string, JsonSchema>;
+  $ref?: string;
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  readOnly?: boolean;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  uniqueItems?: boolean;
+  enum?: unknown[];
+  oneOf?: JsonSchema[];
+  const?: unknown;
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  // What JSON Schema cannot express (control type, conditions, formulas, cross-field rules, messages)
+  "x-form"?: Partial<FieldDefinition>;
+  "x-form-layout"?: FormDefinition["layout"];
+  [keyword: string]: unknown;
+}
+
+// Props that are written as standard keywords and need not be repeated under x-form
+const KEYWORD_PROPS = ["label", "helpText", "options", "required", "minLength", "maxLength", "min", "max", "pattern"];
+
+const FORMAT_TYPES: Record<string, string> = { email: "email", date: "date", "date-time": "datetime", time: "time" };
+
+function optionsToOneOf(options: Array<{ value: unknown; label?: string }>): JsonSchema[] {
+  return options.map((option) => ({ const: option.value, ...(option.label !== undefined && { title: option.label }) }));
+}
+
+function fieldToJsonSchema(key: string, field: FieldDefinition): { schema: JsonSchema; required: boolean } {
+  const props = field.props || {};
+  const rules = getFieldRules({ type: field.type, props, rules: field.rules });
+  const schema: JsonSchema = {};
+
+  switch (field.type) {
+    case "checkbox":
+      schema.type = "boolean";
+      break;
+    case "number":
+      schema.type = rules.some((rule) => rule.type === "integer") ? "integer" : "number";
+      break;
+    case "multiselect":
+      schema.type = "array";
+      schema.uniqueItems = true;
+      schema.items = Array.isArray(props.options) ? { oneOf: optionsToOneOf(props.options) } : {};
+      break;
+    case "select":
+    case "radio":
+      if (Array.isArray(props.options)) {
+        schema.oneOf = optionsToOneOf(props.options);
+      } else {
+        schema.type = "string";
+      }
+      break;
+    default: {
+      schema.type = "string";
+      const format = Object.keys(FORMAT_TYPES).find((name) => FORMAT_TYPES[name] === field.type);
+      if (format) schema.format = format;
+    }
+  }
+
+  if (typeof props.label === "string") schema.title = props.label;
+  if (typeof props.helpText === "string") schema.description = props.helpText;
+  if (field.defaultValue !== undefined) schema.default = field.defaultValue;
+  if (field.computed !== undefined) schema.readOnly = true;
+
+  // Rules JSON Schema has keywords for; the others, and those with their own message, go under x-form
+  const extraRules: SerializableRule[] = [];
+  rules.forEach((rule) => {
+    if (rule.type === "custom" || rule.type === "async") return;
+    if (rule.message || rule.type === "compare") {
+      extraRules.push(rule as SerializableRule);
+    }
+    switch (rule.type) {
+      case "minLength":
+      case "maxLength":
+        schema[rule.type] = rule.value;
+        break;
+      case "min":
+        schema.minimum = rule.value;
+        break;
+      case "max":
+        schema.maximum = rule.value;
+        break;
+      case "pattern":
+        // The keyword takes no flags, so a pattern with flags stays under x-form. Several patterns cannot share the
+        // keyword either; the first one is kept and the others stay under x-form
+        if ((rule as SerializableRule & { type: "pattern" }).flags) {
+          if (!rule.message) extraRules.push(rule as SerializableRule);
+        } else if (schema.pattern === undefined) {
+          schema.pattern = typeof rule.value === "string" ? rule.value : rule.value.source;
+        } else if (!rule.message) {
+          extraRules.push(rule as SerializableRule);
+        }
+        break;
+      case "email":
+        schema.format = "email";
+        break;
+    }
+  });
+
+  const extraProps = Object.fromEntries(Object.entries(props).filter(([name]) => !KEYWORD_PROPS.includes(name)));
+  const extension: Partial<FieldDefinition> = {
+    type: field.type,
+    ...(Object.keys(extraProps).length > 0 && { props: extraProps }),
+    ...(extraRules.length > 0 && { rules: extraRules }),
+    ...(field.visibleWhen && { visibleWhen: field.visibleWhen }),
+    ...(field.disabledWhen && { disabledWhen: field.disabledWhen }),
+    ...(field.requiredWhen && { requiredWhen: field.requiredWhen }),
+    ...(field.computed !== undefined && { computed: field.computed }),
+  };
+  schema["x-form"] = extension;
+
+  if (key.includes("[")) {
+    console.warn(`toJsonSchema: ${key} addresses an array item, which JSON Schema properties cannot express`);
+  }
+  return { schema, required: rules.some((rule) => rule.type === "required") };
+}
+
+// Export a form definition as a JSON Schema (draft 2020-12) for the form's values. Dotted keys become nested
+// object properties; what the standard keywords cannot express is kept under "x-form" for a lossless round trip
+export function toJsonSchema(definition: FormDefinition): JsonSchema {
+  const root: JsonSchema = {
+    $schema: JSON_SCHEMA_DIALECT,
+    type: "object",
+    ...(definition.title && { title: definition.title }),
+    ...(definition.description && { description: definition.description }),
+    properties: {},
+  };
+
+  Object.entries(definition.fields).forEach(([key, field]) => {
+    const segments = key.split(".");
+    // Walk (and create) the object schemas of the parent segments
+    const parent = segments.slice(0, -1).reduce((current, segment) => {
+      current.properties = current.properties || {};
+      current.properties[segment] = current.properties[segment] || { type: "object", properties: {} };
+      return current.properties[segment];
+    }, root);
+
+    const { schema, required } = fieldToJsonSchema(key, field);
+    const name = segments[segments.length - 1];
+    parent.properties = { ...parent.properties, [name]: schema };
+    if (required) parent.required = [...(parent.required || []), name];
+  });
+
+  if (definition.layout) root["x-form-layout"] = definition.layout;
+  return root;
+}
+
+// Follow a local $ref ("#/$defs/Address") to the schema it points at
+function resolveRef(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  let current = schema;
+  const seen = new Set<string>();
+  while (current.$ref) {
+    const ref = current.$ref;
+    if (!ref.startsWith("#/") || seen.has(ref)) {
+      console.warn(`fromJsonSchema: cannot resolve $ref "${ref}"`);
+      return { ...current, $ref: undefined };
+    }
+    seen.add(ref);
+    const target = ref
+      .substring(2)
+      .split("/")
+      .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+      .reduce<JsonSchema | undefined>((node, segment) => node?.[segment] as JsonSchema | undefined, root);
+    if (!target) {
+      console.warn(`fromJsonSchema: $ref "${ref}" points at nothing`);
+      return { ...current, $ref: undefined };
+    }
+    // Keywords next to $ref apply as well (2020-12), the referenced schema's own come first
+    const siblings = { ...current };
+    delete siblings.$ref;
+    current = { ...target, ...siblings };
+  }
+  return current;
+}
+
+function oneOfToOptions(oneOf: JsonSchema[] | undefined, values: unknown[] | undefined) {
+  if (oneOf && oneOf.every((option) => "const" in option)) {
+    return oneOf.map((option) => ({ value: option.const, label: option.title ?? String(option.const) }));
+  }
+  return values?.map((value) => ({ value, label: String(value) }));
+}
+
+// The types a schema allows besides "null", e.g. ["object"] for { type: ["object", "null"] }
+function getNonNullTypes(schema: JsonSchema): Array<string | undefined> {
+  return Array.isArray(schema.type) ? schema.type.filter((type) => type !== "null") : [schema.type];
+}
+
+function jsonSchemaToField(key: string, schema: JsonSchema, required: boolean): FieldDefinition {
+  const extension = schema["x-form"] || {};
+  const jsonType = getNonNullTypes(schema)[0];
+  const props: Record<string, unknown> = { label: schema.title ?? key };
+  const rules: SerializableRule[] = [];
+  let type: string;
+
+  const options = oneOfToOptions(schema.oneOf, schema.enum);
+  const itemOptions = schema.items ? oneOfToOptions(schema.items.oneOf, schema.items.enum) : undefined;
+  if (jsonType === "array") {
+    type = "multiselect";
+    if (itemOptions) props.options = itemOptions;
+  } else if (options) {
+    type = "select";
+    props.options = options;
+  } else if (jsonType === "boolean") {
+    type = "checkbox";
+  } else if (jsonType === "integer" || jsonType === "number") {
+    type = "number";
+    if (jsonType === "integer") rules.push({ type: "integer" });
+  } else {
+    type =
+      (schema.format && FORMAT_TYPES[schema.format]) ||
+      (schema.maxLength && schema.maxLength > 255 ? "textarea" : "text");
+    if (jsonType !== undefined && jsonType !== "string") {
+      console.warn(`fromJsonSchema: ${key} has unsupported type "${jsonType}", rendered as text`);
+    }
+  }
+
+  if (schema.description !== undefined) props.helpText = schema.description;
+  if (required) {
+    props.required = true;
+    rules.push({ type: "required" });
+  }
+  if (schema.minLength !== undefined) rules.push({ type: "minLength", value: schema.minLength });
+  if (schema.maxLength !== undefined) rules.push({ type: "maxLength", value: schema.maxLength });
+  if (schema.minimum !== undefined) rules.push({ type: "min", value: schema.minimum });
+  if (schema.maximum !== undefined) rules.push({ type: "max", value: schema.maximum });
+  if (schema.pattern !== undefined) rules.push({ type: "pattern", value: schema.pattern });
+  if (schema.format === "email") rules.push({ type: "email" });
+
+  // x-form rules carry messages or cross-field comparisons; they replace the plain rule they were exported as
+  const extensionRules = extension.rules || [];
+  const isOverridden = (rule: SerializableRule) =>
+    extensionRules.some(
+      (extra) => extra.type === rule.type && (!("value" in rule) || ("value" in extra && extra.value === rule.value))
+    );
+  const mergedRules = [...rules.filter((rule) => !isOverridden(rule)), ...extensionRules];
+
+  return {
+    type: extension.type || type,
+    props: { ...props, ...extension.props },
+    ...(mergedRules.length > 0 && { rules: mergedRules }),
+    ...(schema.default !== undefined && { defaultValue: schema.default }),
+    ...(extension.visibleWhen && { visibleWhen: extension.visibleWhen }),
+    ...(extension.disabledWhen && { disabledWhen: extension.disabledWhen }),
+    ...(extension.requiredWhen && { requiredWhen: extension.requiredWhen }),
+    ...(extension.computed !== undefined && { computed: extension.computed }),
+  };
+}
+
+// Import a JSON Schema (draft 2020-12) describing an object, or an object or null, as a form definition: one field
+// per leaf property, nested objects flattened to dotted keys, local $refs resolved. The result is checked like a
+// stored definition, so what x-form carries in throws a FormDefinitionError when it is invalid
+export function fromJsonSchema(schema: JsonSchema): FormDefinition {
+  const root = resolveRef(schema, schema);
+  const rootTypes = getNonNullTypes(root);
+  if (root.type !== undefined && (rootTypes.length !== 1 || rootTypes[0] !== "object")) {
+    throw new Error(`fromJsonSchema: the root schema must describe an object, got ${JSON.stringify(root.type)}`);
+  }
+
+  const fields: Record<string, FieldDefinition> = {};
+  const addProperties = (objectSchema: JsonSchema, prefix: string) => {
+    const required = objectSchema.required || [];
+    Object.entries(objectSchema.properties || {}).forEach(([name, propertySchema]) => {
+      const property = resolveRef(propertySchema, schema);
+      const key = prefix ? `${prefix}.${name}` : name;
+      const types = getNonNullTypes(property);
+      if (types.length === 1 && types[0] === "object" && property.properties && !property["x-form"]) {
+        addProperties(property, key);
+      } else {
+        fields[key] = jsonSchemaToField(key, property, required.includes(name));
+      }
+    });
+  };
+  addProperties(root, "");
+
+  return parseFormDefinition({
+    version: FORM_DEFINITION_VERSION,
+    ...(root.title && { title: root.title }),
+    ...(root.description && { description: root.description }),
+    fields,
+    ...(root["x-form-layout"] && { layout: root["x-form-layout"] }),
+  });
+}
@@ -0,0 +1,75 @@
+// A field in a layout, by key or with the number of grid columns it spans. Key narrows the field keys for
+// schemas from defineSchema
+export type LayoutItem<Key extends string = string> = Key | { field: Key; span?: number };
+
+export interface LayoutSection<Key extends string = string> {
+  title?: string; // Rendered as the fieldset legend; untitled sections are plain grids
+  description?: string;
+  columns?: number; // Overrides the layout's column count
+  fields: LayoutItem<Key>[];
+}
+
+export interface LayoutTab<Key extends string = string> {
+  title: string;
+  sections: LayoutSection<Key>[];
+}
+
+// Serializable description of how a form's fields are arranged; sections are used when there are no tabs
+export interface FormLayout<Key extends string = string> {
+  columns?: number; // Grid columns per section, 1 by default
+  sections?: LayoutSection<Key>[];
+  tabs?: LayoutTab<Key>[];
+  // Fields of the schema the layout does not mention are appended in a final section with this title
+  // (untitled when true, the default); false leaves them out
+  remaining?: boolean | string;
+}
+
+export interface ResolvedSection {
+  title?: string;
+  description?: string;
+  columns: number;
+  fields: Array<{ field: string; span: number }>;
+}
+
+export interface ResolvedTab {
+  title?: string;
+  sections: ResolvedSection[];
+}
+
+// Resolve a layout against the schema's field keys: spans clamped to the columns, unknown fields dropped and the
+// remaining fields appended. Always returns at least one tab; a layout without tabs yields a single untitled one
+export function resolveLayout(layout: FormLayout, fieldKeys: string[]): ResolvedTab[] {
+  const placed = new Set<string>();
+
+  const resolveSection = (section: LayoutSection): ResolvedSection => {
+    const columns = Math.max(1, section.columns || layout.columns || 1);
+    const fields = section.fields.flatMap((item) => {
+      const { field, span = 1 } = typeof item === "string" ? { field: item } : item;
+      if (!fieldKeys.includes(field)) {
+        console.warn(`Layout field "${field}" is not in the form schema`);
+        return [];
+      }
+      if (placed.has(field)) {
+        console.warn(`Layout field "${field}" is placed more than once`);
+        return [];
+      }
+      placed.add(field);
+      return [{ field, span: Math.min(Math.max(1, span), columns) }];
+    });
+    return { title: section.title, description: section.description, columns, fields };
+  };
+
+  const tabs: ResolvedTab[] = layout.tabs
+    ? layout.tabs.map((tab) => ({ title: tab.title, sections: tab.sections.map(resolveSection) }))
+    : [{ sections: (layout.sections || []).map(resolveSection) }];
+
+  const remaining = fieldKeys.filter((field) => !placed.has(field));
+  if (remaining.length > 0 && layout.remaining !== false) {
+    const lastTab = tabs[tabs.length - 1];
+    lastTab.sections.push(
+      resolveSection({ title: typeof layout.remaining === "string" ? layout.remaining : undefined, fields: remaining })
+    );
+  }
+
+  return tabs;
+}
@@ -0,0 +1,125 @@
+// A top-level key of the form values, or a path into nested objects and arrays: "address.city", "items[2].quantity"
+export type FieldPath<T> = (keyof T & string) | (string & {});
+
+// The type of the value at a path of T: PathValue<Order, "items[0].quantity"> is number. Paths T does not
+// describe give unknown
+export type PathValue<T, P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? PathValue<NonNullable<PathValue<T, Head>>, Rest>
+  : P extends `${infer Key}[${number}]`
+    ? NonNullable<PathValue<T, Key>> extends ReadonlyArray<infer Item>
+      ? Item
+      : unknown
+    : P extends keyof T
+      ? T[P]
+      : unknown;
+
+// An object or array being walked by path segments
+type Container = Record<string | number, unknown>;
+
+// Split a path into object keys and array indexes: "items[2].quantity" -> ["items", 2, "quantity"]
+export function parsePath(path: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  path.split(".").forEach((part) => {
+    const pattern = /([^[\]]+)|\[(\d+)\]/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(part))) {
+      segments.push(match[2] !== undefined ? parseInt(match[2]) : match[1]);
+    }
+  });
+  return segments;
+}
+
+// Build a path from segments, the inverse of parsePath
+export function joinPath(...segments: Array<string | number>): string {
+  return segments.reduce<string>((path, segment) => {
+    if (typeof segment === "number") return `${path}[${segment}]`;
+    return path ? `${path}.${segment}` : segment;
+  }, "");
+}
+
+// Read the value at a path, undefined when any step along the way is missing
+export function getIn(source: unknown, path: string): unknown {
+  return parsePath(path).reduce<unknown>(
+    (current, segment) => (current == null ? undefined : (current as Container)[segment]),
+    source
+  );
+}
+
+// Return a copy of target with the value at path replaced; containers along the path are copied, not mutated,
+// and missing ones are created as arrays or objects depending on the next segment
+export function setIn<T>(target: T, path: string, value: unknown): T {
+  const segments = parsePath(path);
+
+  const assign = (current: unknown, index: number): unknown => {
+    if (index === segments.length) return value;
+
+    const segment = segments[index];
+    const copy = (
+      Array.isArray(current)
+        ? [...current]
+        : current && typeof current === "object"
+          ? { ...current }
+          : typeof segment === "number"
+            ? []
+            : {}
+    ) as Container;
+    copy[segment] = assign(copy[segment], index + 1);
+    return copy;
+  };
+
+  return assign(target, 0) as T;
+}
+
+// Return a copy of target without the property at path, or target itself when there is nothing to remove
+export function unsetIn<T>(target: T, path: string): T {
+  const segments = parsePath(path);
+  const parentPath = joinPath(...segments.slice(0, -1));
+  const last = segments[segments.length - 1];
+  const parent = getIn(target, parentPath);
+  if (!parent || typeof parent !== "object" || Array.isArray(parent) || !(last in parent)) {
+    return target;
+  }
+
+  const copy: Container = { ...parent };
+  delete copy[last];
+  return segments.length === 1 ? (copy as T) : setIn(target, parentPath, copy);
+}
+
+// Replace each object in the array at path with update(item), returning target itself when no item changed
+export function mapItems<T>(target: T, path: string, update: (item: object) => object): T {
+  const items = getIn(target, path);
+  if (!Array.isArray(items)) return target;
+  let changed = false;
+  const next = items.map((item: unknown) => {
+    if (!item || typeof item !== "object") return item;
+    const updated = update(item);
+    changed = changed || updated !== item;
+    return updated;
+  });
+  return changed ? setIn(target, path, next) : target;
+}
+
+// Whether path is the same as, or nested inside, parentPath: isPathWithin("items[2].quantity", "items") === true
+export function isPathWithin(path: string, parentPath: string): boolean {
+  return path === parentPath || path.startsWith(`${parentPath}.`) || path.startsWith(`${parentPath}[`);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date);
+}
+
+// Paths of the values in `next` that differ from `base`. Fields never set in `next` are not reported, and an
+// array whose length changed is reported as a whole
+export function diffPaths(base: unknown, next: unknown, path = ""): string[] {
+  if (isPlainObject(next) && (isPlainObject(base) || base === undefined)) {
+    return Object.keys(next).flatMap((key) => diffPaths(base?.[key], next[key], joinPath(path, key)));
+  }
+  if (Array.isArray(next) && Array.isArray(base) && next.length === base.length) {
+    return next.flatMap((item, index) => diffPaths(base[index], item, joinPath(path, index)));
+  }
+  if (next === undefined) return [];
+  if (next instanceof Date && base instanceof Date) {
+    return next.getTime() === base.getTime() ? [] : [path];
+  }
+  return Object.is(base, next) ? [] : [path];
+}
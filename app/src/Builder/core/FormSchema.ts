@@ -0,0 +1,101 @@
+import type * as React from "react";
+import type { FieldConditions } from "./FormConditions";
+import type { FieldTransforms } from "./FormTransforms";
+import type { InputConfig } from "./FormTypes";
+import type { ValidationRule, ValidationSchema } from "./FormValidation";
+
+// The value each control type holds. Custom controls add theirs by augmenting the interface:
+//   declare module "./Builder/core/FormSchema" { interface ControlValueTypes { rating: number } }
+export interface ControlValueTypes {
+  text: string;
+  email: string;
+  password: string;
+  textarea: string;
+  number: number;
+  checkbox: boolean;
+  select: string;
+  radio: string;
+  multiselect: string[];
+  date: string;
+  datetime: string;
+  time: string;
+  lookup: string | number;
+}
+
+// Control types missing from ControlValueTypes hold unknown values
+export type ControlValue<Type> = Type extends keyof ControlValueTypes ? ControlValueTypes[Type] : unknown;
+
+type ConfigComponents<C extends InputConfig> = NonNullable<C["components"]>;
+
+// The control types a config registers components for
+export type ControlTypeOf<C extends InputConfig> = keyof ConfigComponents<C> & string;
+
+// Props of the component a config renders for a control type, without the name and formInstance the form supplies
+export type ControlPropsOf<C extends InputConfig, Type extends string> =
+  NonNullable<
+    Type extends keyof ConfigComponents<C> ? ConfigComponents<C>[Type] : C["defaultComponent"]
+  > extends infer Component extends React.ElementType
+    ? Omit<React.ComponentProps<Component>, "name" | "formInstance">
+    : Record<string, unknown>;
+
+export type SchemaField<C extends InputConfig, Type extends string> = {
+  type: Type;
+  props: ControlPropsOf<C, Type>;
+  rules?: ValidationRule[];
+} & FieldConditions &
+  FieldTransforms;
+
+type UnionToIntersection<U> = (U extends unknown ? (arg: U) => void : never) extends (arg: infer I) => void ? I : never;
+
+// Flatten intersections into one object type, recursively, so inferred values read like a hand-written type
+type Simplify<T> = T extends ReadonlyArray<unknown> ? T : T extends object ? { [K in keyof T]: Simplify<T[K]> } : T;
+
+// { "address.city": V } -> { address: { city: V } }
+type NestPath<P extends string, V> = P extends `${infer Head}.${infer Rest}`
+  ? { [K in Head]: NestPath<Rest, V> }
+  : { [K in P]: V };
+
+// The values a schema describes: one property per field, dotted keys nested, typed by ControlValueTypes
+export type InferFormValues<S extends ValidationSchema> = Simplify<
+  UnionToIntersection<
+    {
+      [Key in keyof S & string]: NestPath<Key, ControlValue<S[Key]["type"]>>;
+    }[keyof S & string]
+  >
+>;
+
+declare const schemaValues: unique symbol;
+
+// A schema from defineSchema. It carries the values it describes so useForm can infer them; the property only
+// exists in the type
+export type TypedSchema<S extends ValidationSchema = ValidationSchema, T = InferFormValues<S>> = S & {
+  readonly [schemaValues]: T;
+};
+
+// Any schema but one from defineSchema, whose values useForm infers instead
+export type UntypedSchema = ValidationSchema & { readonly [schemaValues]?: never };
+
+// The values of a schema from defineSchema
+export type SchemaValues<S> = S extends { readonly [schemaValues]: infer T } ? T : never;
+
+// Field keys of a schema; any string for untyped schemas
+export type SchemaKey<S extends ValidationSchema> = keyof S & string;
+
+// Per-field prop overrides accepted by renderField, renderAll and renderLayout
+export type SchemaOverrides<S extends ValidationSchema> = { [Key in SchemaKey<S>]?: Partial<S[Key]["props"]> };
+
+// Declare a schema whose props are checked against the config's components, e.g. options for a select and
+// labelField/valueField/search for a lookup, and whose form values are inferred from the control types:
+//   const schema = defineSchema(NATIVE_INPUT_CONFIG, { age: { type: "number", props: { label: "Age" } } });
+//   const [form] = useForm({ age: 18 }, schema, NATIVE_INPUT_CONFIG); // FormInstance<{ age: number }>
+export function defineSchema<C extends InputConfig, const Types extends Record<string, ControlTypeOf<C>>>(
+  config: C,
+  fields: { [Key in keyof Types]: SchemaField<C, Types[Key]> }
+): TypedSchema<{ [Key in keyof Types]: SchemaField<C, Types[Key]> }> {
+  Object.entries(fields).forEach(([key, field]) => {
+    if (!config.components?.[field.type] && !config.defaultComponent) {
+      console.warn(`defineSchema: no component is registered for ${key} (type "${field.type}")`);
+    }
+  });
+  return fields as TypedSchema<{ [Key in keyof Types]: SchemaField<C, Types[Key]> }>;
+}
@@ -0,0 +1,438 @@
+import { diffPaths, getIn, setIn } from "./FormPath";
+import type { FieldPath, PathValue } from "./FormPath";
+import {
+  applyComputedValues,
+  findConditionIssues,
+  getHiddenFields,
+  isFieldVisible,
+  omitHiddenFields,
+} from "./FormConditions";
+import {
+  getFieldLabel,
+  getFieldRules,
+  getItemField,
+  hasAsyncRules,
+  validateFieldAsync,
+  validateSchema,
+} from "./FormValidation";
+import type { ValidationMessages, ValidationSchema } from "./FormValidation";
+import { formatValues, parseValues } from "./FormTransforms";
+
+export interface UseFormOptions<T = Record<string, unknown>> {
+  // "touched" hides a field's error until the field has been blurred or a submit was attempted
+  showErrors?: "always" | "touched";
+  // When schema rules run besides submit: on every change, when a field loses focus, or only on submit (default)
+  validateOn?: "change" | "blur" | "submit";
+  // Message templates overriding DEFAULT_VALIDATION_MESSAGES
+  messages?: ValidationMessages;
+  // Called by submit with the parsed values once they are valid; see submit for how its errors are reported
+  onSubmit?: (values: T) => unknown;
+}
+
+// What onSubmit throws to report field errors from the server, e.g. { type: "validation", errors: { Email: "Taken" } }
+export interface SubmitValidationError {
+  type: "validation";
+  errors: Record<string, string | string[]>; // By field path; several messages for a field are shown together
+  message?: string; // Shown as the form-level error
+}
+
+export function isSubmitValidationError(error: unknown): error is SubmitValidationError {
+  return (
+    !!error &&
+    typeof error === "object" &&
+    (error as SubmitValidationError).type === "validation" &&
+    typeof (error as SubmitValidationError).errors === "object"
+  );
+}
+
+export interface FormState<T> {
+  values: T;
+  errors: Record<string, string>;
+  touched: Record<string, boolean>; // Fields that have lost focus at least once, by path
+  validating: Record<string, boolean>; // Fields with an async check in flight
+  submitCount: number;
+  isSubmitting: boolean;
+  formError: string | null; // Failure of the last submit that belongs to no field
+}
+
+export interface FormStoreConfig<T> {
+  initialValues: T;
+  schema?: ValidationSchema;
+  validator?: (values: T) => Record<string, string>;
+  options?: UseFormOptions<T>;
+}
+
+type FlagState = "errors" | "touched" | "validating";
+
+interface AsyncCheck {
+  controller: AbortController;
+  promise: Promise<string | undefined>;
+}
+
+// Form State Store (Single Responsibility: State and Validation)
+// Holds the state outside React so hooks can subscribe to it with useSyncExternalStore
+export class FormStore<T extends object> {
+  private state: FormState<T>;
+  private config: FormStoreConfig<T>;
+  private listeners = new Set<() => void>();
+  // Async checks in flight by field; a newer check for the same field aborts the older one
+  private asyncChecks = new Map<string, AsyncCheck>();
+  private dirtyCache: { initialValues: T; values: T; dirty: Record<string, boolean> } | null = null;
+  private initialValuesCache: { source: T; schema?: ValidationSchema; formatted: T } | null = null;
+  // The schema last checked for broken conditions and formulas, and the issues last reported
+  private checkedSchema?: ValidationSchema;
+  private reportedIssues = "";
+
+  constructor(config: FormStoreConfig<T>) {
+    this.config = config;
+    this.checkSchema();
+    this.state = {
+      values: applyComputedValues(this.initialValues, config.schema),
+      errors: {},
+      touched: {},
+      validating: {},
+      submitCount: 0,
+      isSubmitting: false,
+      formError: null,
+    };
+  }
+
+  // Latest schema, validator and options from the owning component; does not notify subscribers
+  configure(config: FormStoreConfig<T>) {
+    this.config = config;
+    this.checkSchema();
+  }
+
+  // Report the broken conditions and formulas of a new schema once; the form runs without them, see
+  // findConditionIssues. A schema rebuilt on every render with the same problems is not reported again
+  private checkSchema() {
+    const { schema } = this.config;
+    if (!schema || schema === this.checkedSchema) return;
+    this.checkedSchema = schema;
+    const issues = findConditionIssues(schema).join("\n");
+    if (issues && issues !== this.reportedIssues) {
+      console.error(`Invalid conditions in the form schema:\n${issues}`);
+    }
+    this.reportedIssues = issues;
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): FormState<T> => this.state;
+
+  // Live views of the state, so the store can stand in for a form instance when handed to field components
+  get values(): T {
+    return this.state.values;
+  }
+
+  get errors(): Record<string, string> {
+    return this.state.errors;
+  }
+
+  get touched(): Record<string, boolean> {
+    return this.state.touched;
+  }
+
+  get validating(): Record<string, boolean> {
+    return this.state.validating;
+  }
+
+  private setState(partial: Partial<FormState<T>>) {
+    this.state = { ...this.state, ...partial };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Set or remove one entry of errors/touched/validating, keeping the object when nothing changes
+  private setFlag<K extends FlagState>(name: K, key: string, value: FormState<T>[K][string] | undefined) {
+    const current: Record<string, unknown> = this.state[name];
+    if (current[key] === value || (value === undefined && !(key in current))) return;
+    const next = { ...current };
+    if (value === undefined) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    this.setState({ [name]: next } as Partial<FormState<T>>);
+  }
+
+  private get options(): UseFormOptions<T> {
+    return this.config.options || {};
+  }
+
+  // initialValues through the schema's format transforms, recomputed when either changes
+  private get initialValues(): T {
+    const { initialValues, schema } = this.config;
+    if (this.initialValuesCache?.source !== initialValues || this.initialValuesCache.schema !== schema) {
+      this.initialValuesCache = { source: initialValues, schema, formatted: formatValues(initialValues, schema) };
+    }
+    return this.initialValuesCache.formatted;
+  }
+
+  // Store new values with their computed fields filled in, dropping the errors of fields they hide
+  private setValuesState(values: T, errors = this.state.errors) {
+    const { schema } = this.config;
+    const nextValues = applyComputedValues(values, schema);
+    const hidden = schema ? getHiddenFields(schema, nextValues).filter((field) => field in errors) : [];
+    if (hidden.length > 0) {
+      errors = { ...errors };
+      hidden.forEach((field) => {
+        this.cancelAsyncCheck(field);
+        delete errors[field];
+      });
+    }
+    this.setState({ values: nextValues, errors });
+  }
+
+  getValue = <K extends FieldPath<T>>(key: K): PathValue<T, K> => getIn(this.state.values, key) as PathValue<T, K>;
+
+  setValue = <K extends FieldPath<T>>(key: K, value: PathValue<T, K>) => {
+    this.setValuesState(setIn(this.state.values, key, value));
+
+    const { schema } = this.config;
+    if (this.options.validateOn === "change" && schema && (schema[key] || getItemField(schema, key))) {
+      this.revalidateField(key);
+    } else {
+      this.setFlag("errors", key, undefined);
+    }
+  };
+
+  setValues = (values: Partial<T>) => {
+    const errors = { ...this.state.errors };
+    Object.keys(values).forEach((key) => {
+      delete errors[key];
+    });
+    this.setValuesState({ ...this.state.values, ...values }, errors);
+  };
+
+  // Values given here are loaded values, so they go through the format transforms like initialValues
+  resetValues = (values?: T) => {
+    const { schema } = this.config;
+    this.asyncChecks.forEach((_, key) => this.cancelAsyncCheck(key));
+    this.setState({
+      values: applyComputedValues(values ? formatValues(values, schema) : this.initialValues, schema),
+      errors: {},
+      touched: {},
+      validating: {},
+      submitCount: 0,
+      formError: null,
+    });
+  };
+
+  setError = (key: FieldPath<T>, error: string) => this.setFlag("errors", key, error);
+
+  clearError = (key: FieldPath<T>) => this.setFlag("errors", key, undefined);
+
+  clearAllErrors = () => this.setState({ errors: {} });
+
+  setFormError = (formError: string | null) => this.setState({ formError });
+
+  hasError = (key: FieldPath<T>) => !!this.state.errors[key];
+
+  getError = (key: FieldPath<T>) => this.state.errors[key];
+
+  // The error to display, honouring the showErrors option
+  getVisibleError = (key: FieldPath<T>) => {
+    const { errors, touched, submitCount } = this.state;
+    if (this.options.showErrors === "touched" && !touched[key] && submitCount === 0) {
+      return undefined;
+    }
+    return errors[key];
+  };
+
+  setTouched = (key: FieldPath<T>, isTouched = true) => {
+    this.setFlag("touched", key, isTouched ? true : undefined);
+
+    if (isTouched && (this.options.validateOn === "blur" || this.options.validateOn === "change")) {
+      this.revalidateField(key);
+    }
+  };
+
+  // Fields whose value differs from initialValues, by path
+  getDirty = (): Record<string, boolean> => {
+    const { initialValues } = this;
+    const { values } = this.state;
+    if (this.dirtyCache?.initialValues !== initialValues || this.dirtyCache.values !== values) {
+      const dirty = Object.fromEntries(diffPaths(initialValues, values).map((path) => [path, true]));
+      this.dirtyCache = { initialValues, values, dirty };
+    }
+    return this.dirtyCache.dirty;
+  };
+
+  // Run the rules of one field, and of the fields comparing themselves against it, and store the results. A
+  // field of a row, e.g. "Items[0].Quantity", is checked against the row's schema and values
+  private revalidateField(key: string) {
+    const { options } = this.config;
+    const itemField = this.config.schema && getItemField(this.config.schema, key);
+    const schema = itemField ? itemField.schema : this.config.schema;
+    const field = itemField ? itemField.field : key;
+    if (!schema?.[field]) return;
+
+    const values = this.state.values;
+    const scope = itemField ? (getIn(values, itemField.itemPath) as object) : values;
+    const prefix = itemField ? `${itemField.itemPath}.` : "";
+    const dependents = Object.keys(schema).filter((name) =>
+      getFieldRules(schema[name]).some((rule) => rule.type === "compare" && rule.field === field)
+    );
+    const fields = [field, ...dependents.filter((name) => name !== field)];
+    const fieldErrors = validateSchema(scope, schema, options?.messages, fields);
+
+    const errors = { ...this.state.errors };
+    fields.forEach((name) => {
+      if (fieldErrors[name]) {
+        errors[prefix + name] = fieldErrors[name];
+      } else {
+        delete errors[prefix + name];
+      }
+    });
+    this.setState({ errors });
+
+    // The async rules only run once the synchronous ones pass, and are debounced while typing; those of rows
+    // are not run
+    if (fieldErrors[field] || itemField) {
+      this.cancelAsyncCheck(key);
+    } else {
+      this.runAsyncCheck(key, values, true);
+    }
+  }
+
+  private cancelAsyncCheck(key: string) {
+    const check = this.asyncChecks.get(key);
+    if (check) {
+      this.asyncChecks.delete(key);
+      check.controller.abort();
+      this.setFlag("validating", key, undefined);
+    }
+  }
+
+  // Run a field's rules including the async ones, optionally debounced, and store the error when it is still current.
+  // A superseded check resolves with the result of the check that replaced it.
+  private runAsyncCheck(key: string, values: T, debounce: boolean): Promise<string | undefined> {
+    this.cancelAsyncCheck(key);
+    const { schema, options } = this.config;
+    const rules = schema?.[key] ? getFieldRules(schema[key]) : [];
+    if (!schema || !hasAsyncRules(rules)) {
+      return Promise.resolve(undefined);
+    }
+
+    const controller = new AbortController();
+    const delay = debounce
+      ? Math.max(...rules.map((rule) => (rule.type === "async" ? (rule.debounceMs ?? 400) : 0)))
+      : 0;
+    const context = {
+      label: getFieldLabel(schema, key),
+      values,
+      messages: options?.messages,
+      getLabel: (field: string) => getFieldLabel(schema, field),
+    };
+
+    const check: AsyncCheck = {
+      controller,
+      promise: new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, delay);
+        controller.signal.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(controller.signal.reason);
+        });
+      })
+        .then(() => validateFieldAsync(getIn(values, key), rules, context, controller.signal))
+        .then((error) => {
+          if (this.asyncChecks.get(key) === check) {
+            this.asyncChecks.delete(key);
+            this.setFlag("validating", key, undefined);
+            this.setFlag("errors", key, error);
+          }
+          return error;
+        })
+        .catch((err): Promise<string | undefined> | undefined => {
+          if (controller.signal.aborted) {
+            return this.asyncChecks.get(key)?.promise;
+          }
+          console.error(`Async validation of ${key} failed:`, err);
+          if (this.asyncChecks.get(key) === check) {
+            this.asyncChecks.delete(key);
+            this.setFlag("validating", key, undefined);
+          }
+          return undefined;
+        }),
+    };
+
+    this.asyncChecks.set(key, check);
+    this.setFlag("validating", key, true);
+    return check.promise;
+  }
+
+  // Schema rules first, then the validator callback, whose messages win for the same field, then the async rules
+  // of the fields that passed, run immediately instead of debounced. Resolves with whether the form is valid
+  validateFields = async (): Promise<boolean> => {
+    const { schema, validator, options } = this.config;
+    const values = this.state.values;
+    const errors: Record<string, string> = {
+      ...(schema ? validateSchema(values, schema, options?.messages) : {}),
+      ...(validator ? validator(values) : {}),
+    };
+    this.setState({ errors });
+
+    const asyncFields = schema
+      ? Object.keys(schema).filter(
+          (field) =>
+            !errors[field] && isFieldVisible(schema[field], values) && hasAsyncRules(getFieldRules(schema[field]))
+        )
+      : [];
+    this.asyncChecks.forEach((_, key) => {
+      if (!asyncFields.includes(key)) this.cancelAsyncCheck(key);
+    });
+    const asyncErrors = await Promise.all(asyncFields.map((field) => this.runAsyncCheck(field, values, false)));
+
+    return Object.keys(errors).length === 0 && asyncErrors.every((error) => !error);
+  };
+
+  // Count the attempt and validate; when valid, await onSubmit (options.onSubmit unless one is given) with the
+  // parsed values, without the fields hidden by visibleWhen. isSubmitting is set from the start, async checks
+  // included, and a submit called while one is in progress resolves with false without doing anything. A thrown
+  // SubmitValidationError lands on its fields, anything else in formError. Resolves with whether the submit went
+  // through
+  submit = async (onSubmit = this.options.onSubmit): Promise<boolean> => {
+    if (this.state.isSubmitting) {
+      return false;
+    }
+    this.setState({ submitCount: this.state.submitCount + 1, formError: null, isSubmitting: true });
+    try {
+      if (!(await this.validateFields())) {
+        return false;
+      }
+
+      const { schema } = this.config;
+      const values = schema ? parseValues(omitHiddenFields(this.state.values, schema), schema) : this.state.values;
+      if (onSubmit) {
+        await onSubmit(values);
+      }
+      return true;
+    } catch (error) {
+      if (isSubmitValidationError(error)) {
+        const fieldErrors = Object.fromEntries(
+          Object.entries(error.errors).map(([path, message]) => [
+            path,
+            Array.isArray(message) ? message.join(" ") : message,
+          ])
+        );
+        this.setState({ errors: { ...this.state.errors, ...fieldErrors }, formError: error.message ?? null });
+      } else {
+        this.setState({ formError: error instanceof Error ? error.message : "Submission failed" });
+      }
+      return false;
+    } finally {
+      this.setState({ isSubmitting: false });
+    }
+  };
+
+  // Abort checks still in flight, e.g. when the owning component unmounts
+  dispose() {
+    this.asyncChecks.forEach((check) => check.controller.abort());
+    this.asyncChecks.clear();
+  }
+}
@@ -0,0 +1,86 @@
+import { getIn, mapItems, setIn } from "./FormPath";
+import { isEmptyValue } from "./FormConditions";
+
+// Schema entries may declare these next to type and props, to convert between what the server sends and expects
+// and what the inputs hold
+export interface FieldTransforms {
+  // Form value -> submitted value, applied by submit before the values reach onSubmit. Declared as methods so a
+  // transform may take the narrower value its field holds, e.g. parse(value: string)
+  parse?(value: unknown): unknown;
+  // Loaded value -> form value, applied to initialValues and to the values given to resetValues
+  format?(value: unknown): unknown;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Ready-made transforms for the usual mismatches between inputs and APIs; combine them with composeTransforms
+export const transforms = {
+  // "" -> null for optional fields, null -> "" so the input can display it
+  nullable: {
+    parse: (value: unknown) => (isEmptyValue(value) ? null : value),
+    format: (value: unknown) => value ?? "",
+  },
+  // Text typed into number inputs -> number; values that are not numbers are left for validation to report
+  number: {
+    parse: (value: unknown) =>
+      typeof value === "string" && value.trim() !== "" && !isNaN(Number(value)) ? Number(value) : value,
+  },
+  // Date inputs hold yyyy-MM-dd; submitted as an ISO timestamp at UTC midnight, loaded back by taking the date part
+  isoDate: {
+    parse: (value: unknown) =>
+      typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : value,
+    format: (value: unknown) =>
+      typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value) ? value.substring(0, 10) : value,
+  },
+  // datetime-local inputs hold local yyyy-MM-ddTHH:mm; submitted as an ISO timestamp in UTC
+  isoDateTime: {
+    parse: (value: unknown) => {
+      const date = typeof value === "string" && value ? new Date(value) : null;
+      return date && !isNaN(date.getTime()) ? date.toISOString() : value;
+    },
+    format: (value: unknown) => {
+      const date = typeof value === "string" && value ? new Date(value) : null;
+      if (!date || isNaN(date.getTime())) return value;
+      return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+    },
+  },
+} satisfies Record<string, FieldTransforms>;
+
+// One transform running the given ones in turn: parse in the order given, format in reverse
+export function composeTransforms(...list: FieldTransforms[]): FieldTransforms {
+  const parsers = list.flatMap((transform) => (transform.parse ? [transform.parse] : []));
+  const formatters = list.flatMap((transform) => (transform.format ? [transform.format] : [])).reverse();
+  return {
+    ...(parsers.length > 0 && { parse: (value: unknown) => parsers.reduce((result, parse) => parse(result), value) }),
+    ...(formatters.length > 0 && {
+      format: (value: unknown) => formatters.reduce((result, format) => format(result), value),
+    }),
+  };
+}
+
+// Fields with items hold rows, each transformed by that schema, see ValidationSchema
+type TransformSchema = Record<string, FieldTransforms & { items?: TransformSchema }>;
+
+// Apply one direction of the schema's transforms to the fields present in values and in their rows, returning
+// values itself when no field declares one
+function transformValues<T extends object>(
+  values: T,
+  schema: TransformSchema | undefined,
+  kind: keyof FieldTransforms
+): T {
+  if (!schema) return values;
+  return Object.keys(schema).reduce((current, field) => {
+    const { items, [kind]: transform } = schema[field];
+    const result = items ? mapItems(current, field, (row) => transformValues(row, items, kind)) : current;
+    const value = getIn(result, field);
+    return transform && value !== undefined ? setIn(result, field, transform(value)) : result;
+  }, values);
+}
+
+export function parseValues<T extends object>(values: T, schema: TransformSchema | undefined): T {
+  return transformValues(values, schema, "parse");
+}
+
+export function formatValues<T extends object>(values: T, schema: TransformSchema | undefined): T {
+  return transformValues(values, schema, "format");
+}
@@ -1,25 +1,32 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import * as React from "react";
-
-export type ControlProps = Record<string, any>;
+import { getConditionalProps, isFieldVisible } from "./FormConditions";
+import { getIn } from "./FormPath";
+import type { FieldConditions } from "./FormConditions";
+import { resolveLayout } from "./FormLayout";
+import type { FormLayout, ResolvedTab } from "./FormLayout";
+import { fromFormDefinition, parseFormDefinition } from "./FormDefinition";
+import type { FieldSource } from "./useForm";
+import FormLayoutView from "../FormLayoutView";
+
+export type ControlProps = Record<string, unknown>;
 export type ControlType = string;
 
-export interface FormControlDefinition {
+export interface FormControlDefinition extends FieldConditions {
   key: string;
   type: ControlType;
   props: ControlProps;
 }
 
 export interface InputConfig {
-  components?: Partial<Record<ControlType, React.ComponentType<any> | string>>;
-  defaultComponent?: React.ComponentType<any> | string;
+  components?: Partial<Record<ControlType, React.ElementType>>;
+  defaultComponent?: React.ElementType;
 }
 
 export class FormControlRegistry {
   private registry: Map<string, FormControlDefinition> = new Map();
 
-  preset(key: string, type: ControlType, props: ControlProps): FormControlDefinition {
-    const definition = { key, type, props };
+  preset(key: string, type: ControlType, props: ControlProps, conditions?: FieldConditions): FormControlDefinition {
+    const definition = { ...conditions, key, type, props };
     this.registry.set(key, definition);
     return definition;
   }
@@ -36,11 +43,16 @@ export class FormControlRegistry {
     return Array.from(this.registry.values());
   }
 
-  initFromJson(json: Record<string, { type: ControlType; props: ControlProps }>): void {
-    Object.entries(json).forEach(([key, { type, props }]) => {
-      this.preset(key, type, props);
+  initFromJson(json: Record<string, { type: ControlType; props: ControlProps } & FieldConditions>): void {
+    Object.entries(json).forEach(([key, { type, props, visibleWhen, disabledWhen, requiredWhen, computed }]) => {
+      this.preset(key, type, props, { visibleWhen, disabledWhen, requiredWhen, computed });
     });
   }
+
+  // Register the controls of a versioned FormDefinition, after validating it
+  initFromDefinition(definition: unknown): void {
+    this.initFromJson(fromFormDefinition(parseFormDefinition(definition)).schema);
+  }
 }
 
 export class ComponentResolver {
@@ -50,7 +62,7 @@ export class ComponentResolver {
     this.config = config;
   }
 
-  resolve(type: ControlType): React.ComponentType<any> | string {
+  resolve(type: ControlType): React.ElementType {
     return this.config.components?.[type] || this.config.defaultComponent || "input";
   }
 }
@@ -59,28 +71,62 @@ export function createInputFactory(config?: InputConfig, controls?: FormControlD
   const registry = new FormControlRegistry();
   const resolver = new ComponentResolver(config || {});
 
-  function field(key: string, overrides?: ControlProps, formInstance?: any) {
-    const definition = registry.get(key);
+  // Conditions are evaluated against the form's current values; hidden fields render nothing. With an itemPath,
+  // e.g. "Items[0]", the control is a field of that row: named by its path in the form and conditioned on the row
+  function create(
+    definition: FormControlDefinition,
+    overrides?: ControlProps,
+    formInstance?: FieldSource,
+    itemPath?: string
+  ) {
+    const formValues = formInstance?.values || {};
+    const values = itemPath ? getIn(formValues, itemPath) || {} : formValues;
+    if (!isFieldVisible(definition, values)) {
+      return null;
+    }
     const Component = resolver.resolve(definition.type);
     return React.createElement(Component, {
       ...definition.props,
+      ...getConditionalProps(definition, values),
       ...overrides,
-      name: key,
-      key,
+      name: itemPath ? `${itemPath}.${definition.key}` : definition.key,
+      key: definition.key,
       formInstance,
     });
   }
 
-  function renderAll(overrides?: Record<string, ControlProps>, formInstance?: any) {
-    return registry.getAll().map((definition) => {
-      const Component = resolver.resolve(definition.type);
-      return React.createElement(Component, {
-        ...definition.props,
-        ...(overrides?.[definition.key] || {}),
-        name: definition.key,
-        key: definition.key,
-        formInstance,
-      });
+  function field(key: string, overrides?: ControlProps, formInstance?: FieldSource, itemPath?: string) {
+    return create(registry.get(key), overrides, formInstance, itemPath);
+  }
+
+  function renderAll(overrides?: Partial<Record<string, ControlProps>>, formInstance?: FieldSource) {
+    return registry
+      .getAll()
+      .map((definition) => create(definition, overrides?.[definition.key], formInstance))
+      .filter((element) => element !== null);
+  }
+
+  // Resolved layouts by layout object, so an unchanged layout is not resolved again on every render
+  const resolvedLayouts = new WeakMap<FormLayout, { keys: string; tabs: ResolvedTab[] }>();
+
+  // Arrange the registered fields in the sections, columns and tabs of a layout
+  function renderLayout(
+    layout: FormLayout,
+    overrides?: Partial<Record<string, ControlProps>>,
+    formInstance?: FieldSource
+  ) {
+    const keys = registry.getAll().map((definition) => definition.key);
+    let resolved = resolvedLayouts.get(layout);
+    if (!resolved || resolved.keys !== keys.join()) {
+      resolved = { keys: keys.join(), tabs: resolveLayout(layout, keys) };
+      resolvedLayouts.set(layout, resolved);
+    }
+
+    const getError = formInstance?.getVisibleError || formInstance?.getError;
+    return React.createElement(FormLayoutView, {
+      tabs: resolved.tabs,
+      renderField: (key: string) => field(key, overrides?.[key], formInstance),
+      hasError: getError ? (key: string) => !!getError(key) : undefined,
     });
   }
 
@@ -93,7 +139,9 @@ export function createInputFactory(config?: InputConfig, controls?: FormControlD
     get: registry.get.bind(registry),
     field,
     renderAll,
+    renderLayout,
     initFromJson: registry.initFromJson.bind(registry),
+    initFromDefinition: registry.initFromDefinition.bind(registry),
     config,
   } as const;
 }
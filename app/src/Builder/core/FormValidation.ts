@@ -0,0 +1,272 @@
+import { getIn } from "./FormPath";
+import { compareValues, isEmptyValue, isFieldRequired, isFieldVisible } from "./FormConditions";
+import type { CompareOperator, FieldConditions } from "./FormConditions";
+import type { FieldTransforms } from "./FormTransforms";
+
+export { isEmptyValue };
+export type { CompareOperator };
+
+// Every rule accepts a message template overriding the default one, see DEFAULT_VALIDATION_MESSAGES
+export type ValidationRule =
+  | { type: "required"; message?: string }
+  | { type: "minLength"; value: number; message?: string }
+  | { type: "maxLength"; value: number; message?: string }
+  | { type: "min"; value: number; message?: string }
+  | { type: "max"; value: number; message?: string }
+  | { type: "pattern"; value: string | RegExp; message?: string }
+  | { type: "email"; message?: string }
+  | { type: "integer"; message?: string }
+  // Return an error message (or false) when invalid, nothing (or true) when valid. Rule functions are methods so
+  // they may take the narrower value their field holds, e.g. validate(value: string)
+  | {
+      type: "custom";
+      validate(value: unknown, values: Record<string, unknown>): string | boolean | null | undefined;
+      message?: string;
+    }
+  // Cross-field rule: compare the value with another field, e.g. EndDate ge StartDate
+  | { type: "compare"; field: string; operator: CompareOperator; message?: string }
+  // Server-side check such as uniqueness; runs after the synchronous rules pass and must honour the abort signal
+  | {
+      type: "async";
+      validate(
+        value: unknown,
+        values: Record<string, unknown>,
+        signal: AbortSignal
+      ): Promise<string | boolean | null | undefined>;
+      debounceMs?: number; // Delay after the last change before the check runs, 400ms by default
+      message?: string;
+    };
+
+export type ValidationRuleType = ValidationRule["type"];
+
+export type ValidationMessages = Partial<Record<ValidationRuleType | "number", string>>;
+
+// Templates may use {label}, {value} (the rule's value), {field} and {operator}
+export const DEFAULT_VALIDATION_MESSAGES: Required<ValidationMessages> = {
+  required: "{label} is required",
+  minLength: "{label} must be at least {value} characters",
+  maxLength: "{label} must be at most {value} characters",
+  min: "{label} must be at least {value}",
+  max: "{label} must be at most {value}",
+  pattern: "{label} is not in the expected format",
+  email: "{label} must be a valid email address",
+  integer: "{label} must be a whole number",
+  number: "{label} must be a number",
+  custom: "{label} is invalid",
+  async: "{label} is invalid",
+  compare: "{label} must be {operator} {field}",
+};
+
+const OPERATOR_TEXT: Record<CompareOperator, string> = {
+  eq: "equal to",
+  ne: "different from",
+  gt: "greater than",
+  ge: "greater than or equal to",
+  lt: "less than",
+  le: "less than or equal to",
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface FieldValidationContext {
+  label: string;
+  values: object;
+  messages?: ValidationMessages;
+  // Resolves the label of another field for cross-field messages
+  getLabel?: (field: string) => string;
+}
+
+function formatMessage(template: string, params: Record<string, unknown>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name) => (params[name] !== undefined ? String(params[name]) : match));
+}
+
+function getRuleMessage(
+  rule: ValidationRule,
+  { label, messages }: FieldValidationContext,
+  key: ValidationRuleType | "number" = rule.type,
+  params: Record<string, unknown> = {}
+): string {
+  return formatMessage(rule.message || messages?.[key] || DEFAULT_VALIDATION_MESSAGES[key], { label, ...params });
+}
+
+// Run the synchronous rules of one field in order and return the first failure's message
+export function validateField(
+  value: unknown,
+  rules: ValidationRule[],
+  context: FieldValidationContext
+): string | undefined {
+  const { values, getLabel } = context;
+  const fail = (rule: ValidationRule, key?: ValidationRuleType | "number", params?: Record<string, unknown>) =>
+    getRuleMessage(rule, context, key, params);
+
+  for (const rule of rules) {
+    // Only "required" and custom rules look at empty values, the others validate what was entered
+    if (isEmptyValue(value) && rule.type !== "required" && rule.type !== "custom") {
+      continue;
+    }
+
+    switch (rule.type) {
+      case "required":
+        if (isEmptyValue(value)) return fail(rule);
+        break;
+      case "minLength":
+        if (String(value).length < rule.value) return fail(rule, "minLength", { value: rule.value });
+        break;
+      case "maxLength":
+        if (String(value).length > rule.value) return fail(rule, "maxLength", { value: rule.value });
+        break;
+      case "min":
+      case "max": {
+        const number = Number(value);
+        if (isNaN(number)) return fail(rule, "number");
+        if (rule.type === "min" ? number < rule.value : number > rule.value) {
+          return fail(rule, rule.type, { value: rule.value });
+        }
+        break;
+      }
+      case "pattern": {
+        const pattern = typeof rule.value === "string" ? new RegExp(rule.value) : rule.value;
+        if (!pattern.test(String(value))) return fail(rule);
+        break;
+      }
+      case "email":
+        if (!EMAIL_PATTERN.test(String(value))) return fail(rule);
+        break;
+      case "integer":
+        if (isNaN(Number(value))) return fail(rule, "number");
+        if (!Number.isInteger(Number(value))) return fail(rule);
+        break;
+      case "custom": {
+        const result = rule.validate(value, values as Record<string, unknown>);
+        if (typeof result === "string") return result;
+        if (result === false) return fail(rule);
+        break;
+      }
+      case "compare":
+        if (!compareValues(value, getIn(values, rule.field), rule.operator)) {
+          return fail(rule, "compare", {
+            field: getLabel ? getLabel(rule.field) : rule.field,
+            operator: OPERATOR_TEXT[rule.operator],
+          });
+        }
+        break;
+      case "async":
+        // Run by validateFieldAsync
+        break;
+    }
+  }
+  return undefined;
+}
+
+export function hasAsyncRules(rules: ValidationRule[]): boolean {
+  return rules.some((rule) => rule.type === "async");
+}
+
+// Run the synchronous rules, then (when they pass) the async ones; rejects with an AbortError once signal aborts
+export async function validateFieldAsync(
+  value: unknown,
+  rules: ValidationRule[],
+  context: FieldValidationContext,
+  signal: AbortSignal
+): Promise<string | undefined> {
+  const error = validateField(value, rules, context);
+  if (error || isEmptyValue(value)) return error;
+
+  for (const rule of rules) {
+    if (rule.type !== "async") continue;
+    const result = await rule.validate(value, context.values as Record<string, unknown>, signal);
+    signal.throwIfAborted();
+    if (typeof result === "string") return result;
+    if (result === false) return getRuleMessage(rule, context);
+  }
+  return undefined;
+}
+
+export type ValidationSchema = Record<
+  string,
+  {
+    type: string;
+    props: Record<string, unknown>;
+    rules?: ValidationRule[];
+    // The fields of each row when the value is an array of rows, by path within the row; the form validates,
+    // computes and transforms every row against it, with errors keyed by row path, e.g. "Items[0].Quantity"
+    items?: ValidationSchema;
+  } & FieldConditions &
+    FieldTransforms
+>;
+
+// Rules of a schema field: the declared ones, plus those implied by its props (required, maxLength, min, ...)
+export function getFieldRules(definition: ValidationSchema[string]): ValidationRule[] {
+  const rules: ValidationRule[] = [...(definition.rules || [])];
+  const declared = new Set(rules.map((rule) => rule.type));
+  const props = definition.props || {};
+  const add = (rule: ValidationRule) => {
+    if (!declared.has(rule.type)) rules.push(rule);
+  };
+
+  if (props.required) add({ type: "required" });
+  if (props.minLength !== undefined) add({ type: "minLength", value: Number(props.minLength) });
+  if (props.maxLength !== undefined) add({ type: "maxLength", value: Number(props.maxLength) });
+  if (props.min !== undefined && props.min !== "") add({ type: "min", value: Number(props.min) });
+  if (props.max !== undefined && props.max !== "") add({ type: "max", value: Number(props.max) });
+  if (typeof props.pattern === "string") add({ type: "pattern", value: `^(?:${props.pattern})$` });
+  if (definition.type === "email") add({ type: "email" });
+
+  // Required first, so an empty field reports that rather than a later rule
+  return rules.sort((a, b) => (a.type === "required" ? -1 : b.type === "required" ? 1 : 0));
+}
+
+// Resolve a path inside a row, e.g. "Items[0].Quantity", to the row's path and schema and the field within it
+export function getItemField(
+  schema: ValidationSchema,
+  path: string
+): { itemPath: string; field: string; schema: ValidationSchema } | null {
+  const match = /^(.+?\[\d+\])\.(.+)$/.exec(path);
+  const items = match ? schema[match[1].substring(0, match[1].lastIndexOf("["))]?.items : undefined;
+  return match && items?.[match[2]] ? { itemPath: match[1], field: match[2], schema: items } : null;
+}
+
+export function getFieldLabel(schema: ValidationSchema, field: string): string {
+  const label = schema[field]?.props?.label;
+  return typeof label === "string" && label ? label : field;
+}
+
+// Validate the given fields (all of the schema by default) and return their errors by field name.
+// Hidden fields are skipped and requiredWhen adds a required rule while its condition holds. The rows of a field
+// with items are validated against it, their errors keyed by row path
+export function validateSchema(
+  values: object,
+  schema: ValidationSchema,
+  messages?: ValidationMessages,
+  fields: string[] = Object.keys(schema)
+): Record<string, string> {
+  const getLabel = (field: string) => getFieldLabel(schema, field);
+  const errors: Record<string, string> = {};
+  fields.forEach((field) => {
+    const definition = schema[field];
+    if (!definition || !isFieldVisible(definition, values)) return;
+    const rules = getFieldRules(definition);
+    if (isFieldRequired(definition, values) && rules[0]?.type !== "required") {
+      rules.unshift({ type: "required" });
+    }
+    const error = validateField(getIn(values, field), rules, {
+      label: getLabel(field),
+      values,
+      messages,
+      getLabel,
+    });
+    if (error) {
+      errors[field] = error;
+    }
+    const { items } = definition;
+    const rows = getIn(values, field);
+    if (items && Array.isArray(rows)) {
+      rows.forEach((row: object, index) => {
+        Object.entries(validateSchema(row || {}, items, messages)).forEach(([path, message]) => {
+          errors[`${field}[${index}].${path}`] = message;
+        });
+      });
+    }
+  });
+  return errors;
+}
@@ -1,153 +1,93 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import * as React from "react";
 import { createInputFactory } from "./FormTypes";
-import type { InputConfig } from "./FormTypes";
-export interface FormInstance<T extends Record<string, any>> {
+import type { ControlProps, InputConfig } from "./FormTypes";
+import type { FormLayout } from "./FormLayout";
+import { getIn } from "./FormPath";
+import type { FieldPath, PathValue } from "./FormPath";
+import type { SchemaKey, SchemaOverrides, SchemaValues, TypedSchema, UntypedSchema } from "./FormSchema";
+import { FormStore } from "./FormStore";
+import type { UseFormOptions } from "./FormStore";
+import type { ValidationSchema } from "./FormValidation";
+
+export type { FormState, SubmitValidationError, UseFormOptions } from "./FormStore";
+
+// S is the schema from defineSchema, which types the keys and overrides of renderField, renderAll and renderLayout
+export interface FormInstance<T extends object, S extends ValidationSchema = ValidationSchema> {
   values: T;
-  setValue: (key: keyof T, value: any) => void;
+  getValue: <K extends FieldPath<T>>(key: K) => PathValue<T, K>;
+  setValue: <K extends FieldPath<T>>(key: K, value: PathValue<T, K>) => void;
   setValues: (values: Partial<T>) => void;
   patchValues: (values: Partial<T>) => void;
   resetValues: (values?: T) => void;
   errors: Record<string, string>;
-  setError: (key: keyof T, error: string) => void;
-  clearError: (key: keyof T) => void;
+  setError: (key: FieldPath<T>, error: string) => void;
+  clearError: (key: FieldPath<T>) => void;
   clearAllErrors: () => void;
-  hasError: (key: keyof T) => boolean;
-  getError: (key: keyof T) => string | undefined;
-  validateFields: () => boolean;
-  submit: () => void;
-  renderField: (key: string, overrides?: any) => React.ReactElement;
-  renderAll: (overrides?: Record<string, any>) => React.ReactElement[];
+  hasError: (key: FieldPath<T>) => boolean;
+  getError: (key: FieldPath<T>) => string | undefined;
+  // The error to display, honouring the showErrors option
+  getVisibleError: (key: FieldPath<T>) => string | undefined;
+  touched: Record<string, boolean>; // Fields that have lost focus at least once, by path
+  setTouched: (key: FieldPath<T>, touched?: boolean) => void;
+  dirty: Record<string, boolean>; // Fields whose value differs from initialValues, by path
+  isDirty: boolean;
+  isValid: boolean;
+  submitCount: number;
+  isSubmitting: boolean;
+  // Failure of the last submit that belongs to no field, e.g. a network error
+  formError: string | null;
+  setFormError: (error: string | null) => void;
+  validating: Record<string, boolean>; // Fields with an async check in flight
+  isValidating: boolean;
+  // Runs every rule, waiting for async ones, and resolves with whether the form is valid
+  validateFields: () => Promise<boolean>;
+  // Validate, then await onSubmit (options.onSubmit by default) with the parsed values. isSubmitting is set
+  // throughout, and a call while a submit is in progress resolves with false. A thrown
+  // { type: "validation", errors } is mapped onto the fields, other failures set formError. Resolves with whether
+  // the submit went through
+  submit: (onSubmit?: (values: T) => unknown) => Promise<boolean>;
+  // null while hidden by visibleWhen
+  renderField: <K extends SchemaKey<S>>(key: K, overrides?: Partial<S[K]["props"]>) => React.ReactElement | null;
+  renderAll: (overrides?: SchemaOverrides<S>) => React.ReactElement[];
+  // Fields arranged in sections, grid columns and tabs
+  renderLayout: (layout: FormLayout<SchemaKey<S>>, overrides?: SchemaOverrides<S>) => React.ReactElement;
+  // The external store behind the instance; its methods are stable across renders
+  store: FormStore<T>;
 }
 
-type FormContextType<T> = {
-  values: T;
-  setValue: (key: keyof T, value: any) => void;
-  setValues: (values: Partial<T>) => void;
-  patchValues: (values: Partial<T>) => void;
-  resetValues: (values?: T) => void;
-  errors: Record<string, string>;
-  setError: (key: keyof T, error: string) => void;
-  clearError: (key: keyof T) => void;
-  clearAllErrors: () => void;
-  hasError: (key: keyof T) => boolean;
-  getError: (key: keyof T) => string | undefined;
-};
+// Holds the instance of whichever form is provided, its value type erased: a FormInstance is invariant in T, so
+// Form and useFormContext convert through unknown
+export const FormContext = React.createContext<FormInstance<object> | undefined>(undefined);
 
-export const FormContext = React.createContext<FormContextType<any> | undefined>(undefined);
-
-export function useForm<T extends Record<string, any>>(
+// With a schema from defineSchema, initialValues and the validator are checked against the values it describes
+export function useForm<S extends TypedSchema>(
+  initialValues: SchemaValues<S>,
+  schema: S,
+  config?: InputConfig,
+  validator?: (values: SchemaValues<S>) => Record<string, string>,
+  options?: UseFormOptions<SchemaValues<S>>
+): [FormInstance<SchemaValues<S>, S>];
+export function useForm<T extends object>(
   initialValues: T,
-  schema?: Record<string, { type: string; props: any }>,
+  schema?: UntypedSchema,
   config?: InputConfig,
-  validator?: (values: T) => Record<string, string>
+  validator?: (values: T) => Record<string, string>,
+  options?: UseFormOptions<T>
+): [FormInstance<T>];
+export function useForm<T extends object>(
+  initialValues: T,
+  schema?: ValidationSchema,
+  config?: InputConfig,
+  validator?: (values: T) => Record<string, string>,
+  options?: UseFormOptions<T>
 ): [FormInstance<T>] {
-  const [values, setValues] = React.useState<T>(initialValues);
-  const [errors, setErrors] = React.useState<Record<string, string>>({});
-
-  const setValue = React.useCallback(
-    (key: keyof T, value: any) => {
-      setValues((prevValues) => ({ ...prevValues, [key]: value }));
-
-      if (errors[key as string]) {
-        setErrors((prevErrors) => {
-          const newErrors = { ...prevErrors };
-          delete newErrors[key as string];
-          return newErrors;
-        });
-      }
-    },
-    [errors]
-  );
-
-  const setValuesMultiple = React.useCallback((newValues: Partial<T>) => {
-    setValues((prevValues) => ({ ...prevValues, ...newValues }));
-
-    const updatedKeys = Object.keys(newValues);
-    setErrors((prevErrors) => {
-      const newErrors = { ...prevErrors };
-      updatedKeys.forEach((key) => {
-        delete newErrors[key];
-      });
-      return newErrors;
-    });
-  }, []);
+  const [store] = React.useState(() => new FormStore<T>({ initialValues, schema, validator, options }));
+  store.configure({ initialValues, schema, validator, options });
 
-  const resetValues = React.useCallback(
-    (newValues?: T) => {
-      setValues(newValues || initialValues);
-      setErrors({});
-    },
-    [initialValues]
-  );
-
-  const setError = React.useCallback((key: keyof T, error: string) => {
-    setErrors((prevErrors) => ({ ...prevErrors, [key as string]: error }));
-  }, []);
-
-  const clearError = React.useCallback((key: keyof T) => {
-    setErrors((prevErrors) => {
-      const newErrors = { ...prevErrors };
-      delete newErrors[key as string];
-      return newErrors;
-    });
-  }, []);
+  const state = React.useSyncExternalStore(store.subscribe, store.getSnapshot);
 
-  const clearAllErrors = React.useCallback(() => {
-    setErrors({});
-  }, []);
-
-  const hasError = React.useCallback(
-    (key: keyof T) => {
-      return !!errors[key as string];
-    },
-    [errors]
-  );
-
-  const getError = React.useCallback(
-    (key: keyof T) => {
-      return errors[key as string];
-    },
-    [errors]
-  );
-
-  const validateFields = React.useCallback(() => {
-    clearAllErrors();
-    if (validator) {
-      const newErrors = validator(values);
-      Object.entries(newErrors).forEach(([key, error]) => {
-        setError(key as keyof T, error);
-      });
-      return Object.keys(newErrors).length === 0;
-    }
-    return true;
-  }, [values, validator, clearAllErrors, setError]);
-
-  const submit = React.useCallback(() => {
-    if (validateFields()) {
-      console.log("Form submitted:", values);
-    } else {
-      console.log("Form has validation errors");
-    }
-  }, [validateFields, values]);
-
-  // Form instance object
-  const formInstanceMethods = React.useMemo(
-    () => ({
-      values,
-      setValue,
-      setValues: setValuesMultiple,
-      patchValues: setValuesMultiple,
-      resetValues,
-      errors,
-      setError,
-      clearError,
-      clearAllErrors,
-      hasError,
-      getError,
-    }),
-    [values, setValue, setValuesMultiple, resetValues, errors, setError, clearError, clearAllErrors, hasError, getError]
-  );
+  // Abort checks still in flight when the form goes away
+  React.useEffect(() => () => store.dispose(), [store]);
 
   // Form factory instance
   const formFactory = React.useMemo(() => {
@@ -158,136 +98,268 @@ export function useForm<T extends Record<string, any>>(
     return factory;
   }, [config, schema]);
 
+  // Fields get the store rather than the instance: it stays the same across renders, so memoized field
+  // components skip re-rendering and pick up their own changes through useField
   const renderField = React.useCallback(
-    (key: string, overrides?: any) => {
-      return formFactory.field(key, overrides, formInstanceMethods);
-    },
-    [formFactory, formInstanceMethods]
+    (key: string, overrides?: ControlProps) => formFactory.field(key, overrides, store),
+    [formFactory, store]
   );
 
   const renderAll = React.useCallback(
-    (overrides?: Record<string, any>) => {
-      return formFactory.renderAll(overrides, formInstanceMethods);
-    },
-    [formFactory, formInstanceMethods]
+    (overrides?: Partial<Record<string, ControlProps>>) => formFactory.renderAll(overrides, store),
+    [formFactory, store]
+  );
+
+  const renderLayout = React.useCallback(
+    (layout: FormLayout, overrides?: Partial<Record<string, ControlProps>>) =>
+      formFactory.renderLayout(layout, overrides, store),
+    [formFactory, store]
   );
 
-  const formInstance: FormInstance<T> = React.useMemo(
-    () => ({
-      ...formInstanceMethods,
-      validateFields,
-      submit,
+  // Form instance object, rebuilt whenever the store's state changes
+  const dirty = store.getDirty();
+  const formInstance = React.useMemo(
+    (): FormInstance<T> => ({
+      ...state,
+      getValue: store.getValue,
+      setValue: store.setValue,
+      setValues: store.setValues,
+      patchValues: store.setValues,
+      resetValues: store.resetValues,
+      setError: store.setError,
+      clearError: store.clearError,
+      clearAllErrors: store.clearAllErrors,
+      setFormError: store.setFormError,
+      hasError: store.hasError,
+      getError: store.getError,
+      getVisibleError: store.getVisibleError,
+      setTouched: store.setTouched,
+      dirty,
+      isDirty: Object.keys(dirty).length > 0,
+      isValid: Object.keys(state.errors).length === 0,
+      isValidating: Object.keys(state.validating).length > 0,
+      validateFields: store.validateFields,
+      submit: store.submit,
       renderField,
       renderAll,
+      renderLayout,
+      store,
     }),
-    [formInstanceMethods, validateFields, submit, renderField, renderAll]
+    [store, state, dirty, renderField, renderAll, renderLayout]
   );
 
   return [formInstance];
 }
 
 // Form State Hook (Single Responsibility: State Access)
-export function useFormContext<T extends Record<string, any>>(): FormContextType<T> {
+export function useFormContext<T extends object, S extends ValidationSchema = ValidationSchema>(): FormInstance<T, S> {
   const context = React.useContext(FormContext);
   if (!context) {
-    throw new Error("useFormContext must be used inside <FormProvider>");
+    throw new Error("useFormContext must be used inside <Form> or <FormProvider>");
   }
-  return context as FormContextType<T>;
+  return context as unknown as FormInstance<T, S>;
+}
+
+// Form Provider: exposes a useForm instance to nested components through useFormContext
+export function Form<T extends object, S extends ValidationSchema>({
+  form,
+  children,
+}: {
+  form: FormInstance<T, S>;
+  children: React.ReactNode;
+}) {
+  return React.createElement(FormContext.Provider, { value: form as unknown as FormInstance<object> }, children);
 }
 
 // Form State Provider (Single Responsibility: State Management)
-export function FormProvider<T extends Record<string, any>>({
+// Shorthand for useForm plus <Form>, for forms whose owner does not need the instance itself
+export function FormProvider<T extends object>({
   initialValues,
+  schema,
+  config,
+  options,
   children,
 }: {
   initialValues: T;
+  schema?: ValidationSchema;
+  config?: InputConfig;
+  options?: UseFormOptions<T>;
   children: React.ReactNode;
 }) {
-  const [values, setValues] = React.useState<T>(initialValues);
-  const [errors, setErrors] = React.useState<Record<string, string>>({});
-
-  const setValue = React.useCallback(
-    (key: keyof T, value: any) => {
-      setValues((prevValues) => ({ ...prevValues, [key]: value }));
-
-      if (errors[key as string]) {
-        setErrors((prevErrors) => {
-          const newErrors = { ...prevErrors };
-          delete newErrors[key as string];
-          return newErrors;
-        });
-      }
-    },
-    [errors]
-  );
+  const [form] = useForm(initialValues, schema, config, undefined, options);
+  return React.createElement(FormContext.Provider, { value: form as unknown as FormInstance<object> }, children);
+}
 
-  const setValuesMultiple = React.useCallback((newValues: Partial<T>) => {
-    setValues((prevValues) => ({ ...prevValues, ...newValues }));
+// Anything field components may be handed: a form instance, its store, or a partial adapter such as a grid row.
+// Declared with methods so the instance and store of a form with any value type fit
+export interface FieldSource {
+  values?: unknown;
+  touched?: Record<string, boolean>;
+  validating?: Record<string, boolean>;
+  store?: FieldSource & { subscribe(listener: () => void): () => void };
+  getError?(key: string): string | undefined;
+  getVisibleError?(key: string): string | undefined;
+  setValue?(key: string, value: unknown): void;
+  setTouched?(key: string, touched?: boolean): void;
+}
 
-    const updatedKeys = Object.keys(newValues);
-    setErrors((prevErrors) => {
-      const newErrors = { ...prevErrors };
-      updatedKeys.forEach((key) => {
-        delete newErrors[key];
-      });
-      return newErrors;
-    });
-  }, []);
+export interface FieldState {
+  value: unknown;
+  error?: string; // Only when it should be displayed right now, see UseFormOptions.showErrors
+  touched: boolean;
+  validating: boolean;
+}
 
-  const resetValues = React.useCallback(
-    (newValues?: T) => {
-      setValues(newValues || initialValues);
-      setErrors({});
-    },
-    [initialValues]
-  );
+const noopSubscribe = () => () => {};
 
-  const setError = React.useCallback((key: keyof T, error: string) => {
-    setErrors((prevErrors) => ({ ...prevErrors, [key as string]: error }));
-  }, []);
+function shallowEqual<S extends object>(a: S, b: S): boolean {
+  const keys = Object.keys(a) as Array<keyof S>;
+  return keys.length === Object.keys(b).length && keys.every((key) => Object.is(a[key], b[key]));
+}
 
-  const clearError = React.useCallback((key: keyof T) => {
-    setErrors((prevErrors) => {
-      const newErrors = { ...prevErrors };
-      delete newErrors[key as string];
-      return newErrors;
-    });
-  }, []);
+// Subscribe to a slice of a form's state; the component only re-renders when the slice changes.
+// Sources without a store (adapters) are read on every render instead
+function useFormSelector<S extends object>(
+  formInstance: FieldSource | undefined,
+  select: (form: FieldSource | undefined) => S
+): S {
+  const context = React.useContext(FormContext);
+  const form = formInstance || context;
+  const store = form instanceof FormStore ? form : form?.store;
+  const cacheRef = React.useRef<S | null>(null);
+
+  const getSnapshot = () => {
+    const next = select(store || form);
+    if (cacheRef.current && shallowEqual(cacheRef.current, next)) {
+      return cacheRef.current;
+    }
+    cacheRef.current = next;
+    return next;
+  };
 
-  const clearAllErrors = React.useCallback(() => {
-    setErrors({});
-  }, []);
+  return React.useSyncExternalStore(store ? store.subscribe : noopSubscribe, getSnapshot);
+}
 
-  const hasError = React.useCallback(
-    (key: keyof T) => {
-      return !!errors[key as string];
-    },
-    [errors]
-  );
+// Field Hook: the value and display state of one field, plus setters bound to it
+export function useField(name: string, formInstance?: FieldSource) {
+  const context = React.useContext(FormContext);
+  const form = formInstance || context;
+
+  const state = useFormSelector<FieldState>(formInstance, (source) => ({
+    value: source?.values ? getIn(source.values, name) : undefined,
+    error: (source?.getVisibleError || source?.getError)?.(name),
+    touched: !!source?.touched?.[name],
+    validating: !!source?.validating?.[name],
+  }));
+
+  const setValue = form?.setValue;
+  const setTouched = form?.setTouched;
+  return {
+    ...state,
+    setValue: React.useCallback((value: unknown) => setValue?.(name, value), [name, setValue]),
+    setTouched: React.useCallback((touched = true) => setTouched?.(name, touched), [name, setTouched]),
+  };
+}
 
-  const getError = React.useCallback(
-    (key: keyof T) => {
-      return errors[key as string];
-    },
-    [errors]
+// Watch Hook: the values at the given paths, re-rendering only when one of them changes
+export function useWatch(name: string, formInstance?: FieldSource): unknown;
+export function useWatch(names: string[], formInstance?: FieldSource): unknown[];
+export function useWatch(names: string | string[], formInstance?: FieldSource) {
+  const paths = Array.isArray(names) ? names : [names];
+  const watched = useFormSelector(formInstance, (source) =>
+    Object.fromEntries(paths.map((path) => [path, source?.values ? getIn(source.values, path) : undefined]))
   );
+  return Array.isArray(names) ? names.map((path) => watched[path]) : watched[names];
+}
 
-  const contextValue: FormContextType<T> = React.useMemo(
-    () => ({
-      values,
-      setValue,
-      setValues: setValuesMultiple,
-      patchValues: setValuesMultiple,
-      resetValues,
-      errors,
-      setError,
-      clearError,
-      clearAllErrors,
-      hasError,
-      getError,
-    }),
-    [values, setValue, setValuesMultiple, resetValues, errors, setError, clearError, clearAllErrors, hasError, getError]
-  );
+// The parts of a form instance a field array works with, declared with methods like FieldSource
+export interface FieldArrayForm {
+  values: unknown;
+  errors: Record<string, string>;
+  setValue(key: string, value: unknown): void;
+  setError(key: string, error: string): void;
+  clearError(key: string): void;
+}
+
+export interface FieldArrayField<TItem> {
+  key: string; // Stable across insert/remove/move/swap, use as the React key
+  index: number;
+  path: string; // e.g. "items[2]", prefix for the item's fields: `${field.path}.quantity`
+  value: TItem;
+}
+
+let fieldArrayKeyCounter = 0;
+const nextFieldArrayKey = () => `field-array-${++fieldArrayKeyCounter}`;
+
+// Field Array Hook: append/insert/remove/move/swap on the array at `name`, keeping keys and path-keyed errors with their items
+export function useFieldArray<TItem = unknown>(name: string, formInstance?: FieldArrayForm) {
+  const context = React.useContext(FormContext);
+  const keysRef = React.useRef<string[]>([]);
 
-  return React.createElement(FormContext.Provider, { value: contextValue }, children);
+  const form = formInstance || context;
+  if (!form) {
+    throw new Error("useFieldArray must be given a form instance or be used inside <Form> or <FormProvider>");
+  }
+
+  // Subscribed like useWatch, so a component handed the form's store re-renders when the array changes
+  const current = useWatch(name, formInstance);
+  const items = (Array.isArray(current) ? current : []) as TItem[];
+
+  // Items replaced from outside (reset, patch) get fresh keys for the positions that changed count
+  if (keysRef.current.length !== items.length) {
+    keysRef.current = items.map((_, index) => keysRef.current[index] || nextFieldArrayKey());
+  }
+
+  // Apply a reordering: order lists the old index (or a new item) for every position of the new array
+  const apply = (order: Array<number | { item: TItem }>) => {
+    const oldKeys = keysRef.current;
+    keysRef.current = order.map((entry) => (typeof entry === "number" ? oldKeys[entry] : nextFieldArrayKey()));
+    form.setValue(
+      name,
+      order.map((entry) => (typeof entry === "number" ? items[entry] : entry.item))
+    );
+
+    // Move item errors to the item's new index, dropping those of removed items
+    const prefix = `${name}[`;
+    const moved: Array<[string, string]> = [];
+    Object.entries(form.errors).forEach(([path, message]) => {
+      const match = path.startsWith(prefix) ? /^(\d+)\](.*)$/.exec(path.substring(prefix.length)) : null;
+      if (!match) return;
+      const newIndex = order.indexOf(parseInt(match[1]));
+      if (newIndex !== parseInt(match[1])) {
+        form.clearError(path);
+        if (newIndex >= 0) moved.push([`${prefix}${newIndex}]${match[2]}`, message]);
+      }
+    });
+    moved.forEach(([path, message]) => form.setError(path, message));
+  };
+
+  const indexes = () => items.map((_, index) => index);
+
+  return {
+    fields: items.map((value, index): FieldArrayField<TItem> => ({
+      key: keysRef.current[index],
+      index,
+      path: `${name}[${index}]`,
+      value,
+    })),
+    append: (item: TItem) => apply([...indexes(), { item }]),
+    prepend: (item: TItem) => apply([{ item }, ...indexes()]),
+    insert: (index: number, item: TItem) => {
+      const order: Array<number | { item: TItem }> = indexes();
+      order.splice(index, 0, { item });
+      apply(order);
+    },
+    remove: (index: number) => apply(indexes().filter((i) => i !== index)),
+    move: (from: number, to: number) => {
+      const order = indexes();
+      order.splice(to, 0, ...order.splice(from, 1));
+      apply(order);
+    },
+    swap: (indexA: number, indexB: number) => {
+      const order = indexes();
+      [order[indexA], order[indexB]] = [order[indexB], order[indexA]];
+      apply(order);
+    },
+  };
 }
@@ -19,7 +19,7 @@ export * from "../FormComponents";
 // =============================================================================
 
 // For backward compatibility, re-export commonly used items directly
-export { useForm, FormProvider, useFormContext } from "../core/useForm";
+export { useForm, Form, FormProvider, useFormContext } from "../core/useForm";
 export {
   createFormFactory,
   NATIVE_INPUT_CONFIG,
@@ -30,5 +30,6 @@ export {
   NativeRadio,
   NativeTextarea,
   NativeMultiSelect,
+  NativeLookup,
 } from "../FormComponents";
 export { createInputFactory, FormControlRegistry, ComponentResolver } from "../core/FormTypes";
@@ -1,15 +1,67 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import ODataCreateForm from "./ODataCreateForm";
+import ODataEditForm from "./ODataEditForm";
+import ODataTable from "./ODataTable";
+import ODataProvider from "./ODataProvider";
+import type { EntityFieldConditions } from "./useODataCRUD";
+import type { FormLayout } from "../Builder/core/FormLayout";
+
+// The sample API routes controllers on odata/[Controller], so sets are addressed by their entity type name
+const routeByEntityType = (_entitySetName: string, entityTypeName: string) => entityTypeName;
+
+// Customer fields grouped into sections, the fields not listed (IsActive, dates) follow under "Other"
+const CUSTOMER_LAYOUT: FormLayout = {
+  columns: 2,
+  sections: [
+    { title: "Name", fields: ["FirstName", "LastName"] },
+    { title: "Contact", fields: [{ field: "Email", span: 2 }, "Phone", { field: "Address", span: 2 }] },
+  ],
+  remaining: "Other",
+};
+
+// Line totals follow quantity, price and discount; a cancelled order needs a note saying why
+const ORDER_CONDITIONS: EntityFieldConditions = {
+  Order: {
+    Notes: { requiredWhen: { field: "Status", operator: "eq", value: "Cancelled" } },
+  },
+  OrderItem: {
+    TotalPrice: { computed: "Quantity * UnitPrice - Discount" },
+  },
+};
 
 export default function CreateFormExample() {
   return (
-    <div style={{ padding: "20px" }}>
-      <h1>OData Create Form Example</h1>
-      <div style={{ marginBottom: "40px" }}>
-        <h2>Product Form 1</h2>
-        <ODataCreateForm baseUrl="http://localhost:5134" entityName="Product" />
+    <ODataProvider baseUrl="http://localhost:5134" persistMetadata entitySetPaths={routeByEntityType}>
+      <div style={{ padding: "20px" }}>
+        <h1>OData Create Form Example</h1>
+        <div style={{ marginBottom: "40px" }}>
+          <h2>Product Form 1</h2>
+          <ODataCreateForm baseUrl="http://localhost:5134" entityName="Product" />
+        </div>
+        <div style={{ marginBottom: "40px" }}>
+          <h2>Customer Form With Sections</h2>
+          <ODataCreateForm baseUrl="http://localhost:5134" entityName="Customer" layout={CUSTOMER_LAYOUT} />
+        </div>
+        <div style={{ marginBottom: "40px" }}>
+          <h2>Order With Items</h2>
+          <ODataCreateForm
+            baseUrl="http://localhost:5134"
+            entityName="Order"
+            collections={["OrderItems"]}
+            unique={["OrderNumber"]}
+            conditions={ORDER_CONDITIONS}
+          />
+        </div>
+        <div style={{ marginBottom: "40px" }}>
+          <h2>Product Edit Form</h2>
+          <ODataEditForm baseUrl="http://localhost:5134" entityName="Product" entityKey={1} />
+        </div>
+        <div style={{ marginBottom: "40px" }}>
+          <h2>Product Table</h2>
+          <ODataTable baseUrl="http://localhost:5134" entityName="Product" pageSize={10} />
+        </div>
       </div>
-    </div>
+    </ODataProvider>
   );
 }
@@ -0,0 +1,328 @@
+import { fetchOData, ODataHttpError, parseErrorResponse } from "./ODataErrors";
+import type { FetchLike } from "./ODataTransport";
+
+// JSON batch (OData 4.01) or multipart/mixed (OData 4.0), for services that only understand the latter
+export type BatchFormat = "json" | "multipart";
+
+export interface BatchOptions {
+  format?: BatchFormat;
+  signal?: AbortSignal;
+}
+
+type BatchMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+interface BatchRequest {
+  id: string; // Content-ID
+  method: BatchMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  atomicityGroup?: string;
+  dependsOn?: string[];
+}
+
+// Handle of a queued request
+export interface BatchOperation {
+  readonly id: string;
+  readonly index: number; // Position of its result
+  readonly ref: string; // "$1": the entity it creates, usable as the start of a later URL, e.g. `${order.ref}/OrderItems`
+}
+
+export interface BatchResult<T = unknown> {
+  id: string;
+  method: string;
+  url: string;
+  status: number;
+  ok: boolean;
+  data?: T; // Parsed body of a successful response
+  etag?: string;
+  error?: ODataHttpError; // A failed request, or every request of a failed change set
+}
+
+// Queues the requests of one $batch. URLs are relative to the service root ("Orders(1)") or absolute, and may
+// start with the ref of an earlier request ("$1/OrderItems")
+export class ODataBatchBuilder {
+  private requests: BatchRequest[];
+  private atomicityGroup?: string;
+
+  constructor(requests: BatchRequest[] = [], atomicityGroup?: string) {
+    this.requests = requests;
+    this.atomicityGroup = atomicityGroup;
+  }
+
+  private add(method: BatchMethod, url: string, body?: unknown, etag?: string): BatchOperation {
+    const id = String(this.requests.length + 1);
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+    if (etag) headers["If-Match"] = etag;
+
+    // A request in another change set can only be depended on through its set
+    const reference = /^\$(\w+)/.exec(url);
+    const referenced = reference && this.requests.find((request) => request.id === reference[1]);
+    const dependsOn =
+      referenced && referenced.atomicityGroup !== this.atomicityGroup ? referenced.atomicityGroup : reference?.[1];
+    this.requests.push({
+      id,
+      method,
+      url,
+      headers,
+      ...(body !== undefined && { body }),
+      ...(this.atomicityGroup && { atomicityGroup: this.atomicityGroup }),
+      ...(dependsOn && { dependsOn: [dependsOn] }),
+    });
+    return { id, index: this.requests.length - 1, ref: `$${id}` };
+  }
+
+  get(url: string): BatchOperation {
+    if (this.atomicityGroup) {
+      throw new Error("GET requests cannot be part of a change set");
+    }
+    return this.add("GET", url);
+  }
+
+  create(url: string, entity: unknown): BatchOperation {
+    return this.add("POST", url, entity);
+  }
+
+  update(url: string, entity: unknown, { etag }: { etag?: string } = {}): BatchOperation {
+    return this.add("PUT", url, entity, etag);
+  }
+
+  patch(url: string, entity: unknown, { etag }: { etag?: string } = {}): BatchOperation {
+    return this.add("PATCH", url, entity, etag);
+  }
+
+  remove(url: string, { etag }: { etag?: string } = {}): BatchOperation {
+    return this.add("DELETE", url, undefined, etag);
+  }
+
+  // Queue writes as one change set, which the service may apply atomically; the bundled Api does not
+  changeSet(build: (changeSet: ODataBatchBuilder) => void) {
+    if (this.atomicityGroup) {
+      throw new Error("Change sets cannot be nested");
+    }
+    const changeSet = new ODataBatchBuilder(this.requests, `changeset${this.requests.length + 1}`);
+    build(changeSet);
+  }
+
+  getRequests(): BatchRequest[] {
+    return [...this.requests];
+  }
+}
+
+interface RawResponse {
+  id?: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// A request, or the requests of one change set, in the order they are sent
+function groupRequests(requests: BatchRequest[]): BatchRequest[][] {
+  return requests.reduce<BatchRequest[][]>((groups, request) => {
+    const last = groups[groups.length - 1];
+    if (request.atomicityGroup && last?.[0].atomicityGroup === request.atomicityGroup) {
+      last.push(request);
+    } else {
+      groups.push([request]);
+    }
+    return groups;
+  }, []);
+}
+
+function serializeJson(requests: BatchRequest[]): string {
+  return JSON.stringify({
+    requests: requests.map(({ body, ...request }) => ({ ...request, ...(body !== undefined && { body }) })),
+  });
+}
+
+// One entry of a JSON batch response's responses array
+interface JsonBatchResponse {
+  id?: string | number;
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+function parseJsonResponses(text: string): RawResponse[] {
+  const data = JSON.parse(text);
+  return (data.responses || []).map((response: JsonBatchResponse) => ({
+    id: response.id !== undefined ? String(response.id) : undefined,
+    status: response.status,
+    headers: response.headers || {},
+    body:
+      response.body === undefined || response.body === null
+        ? ""
+        : typeof response.body === "string"
+          ? response.body
+          : JSON.stringify(response.body),
+  }));
+}
+
+const CRLF = "\r\n";
+
+function serializeHttpRequest(request: BatchRequest, withContentId: boolean): string {
+  const lines = [
+    "Content-Type: application/http",
+    "Content-Transfer-Encoding: binary",
+    ...(withContentId ? [`Content-ID: ${request.id}`] : []),
+    "",
+    `${request.method} ${request.url} HTTP/1.1`,
+    ...Object.entries(request.headers).map(([name, value]) => `${name}: ${value}`),
+    "",
+    request.body !== undefined ? JSON.stringify(request.body) : "",
+  ];
+  return lines.join(CRLF);
+}
+
+function serializeMultipart(requests: BatchRequest[], boundary: string): string {
+  const parts = groupRequests(requests).map((group, index) => {
+    if (!group[0].atomicityGroup) {
+      return serializeHttpRequest(group[0], false);
+    }
+    const changeSetBoundary = `changeset_${boundary}_${index}`;
+    return [
+      `Content-Type: multipart/mixed; boundary=${changeSetBoundary}`,
+      "",
+      ...group.map((request) => `--${changeSetBoundary}${CRLF}${serializeHttpRequest(request, true)}`),
+      `--${changeSetBoundary}--`,
+    ].join(CRLF);
+  });
+  return [...parts.map((part) => `--${boundary}${CRLF}${part}`), `--${boundary}--`, ""].join(CRLF);
+}
+
+// "Content-Type: multipart/mixed; boundary=abc" -> "abc"
+function getBoundary(contentType: string | null | undefined): string | undefined {
+  return /boundary="?([^";]+)"?/i.exec(contentType || "")?.[1];
+}
+
+// Split header lines from what follows the blank line after them; text starting with the blank line has none
+function splitHeaders(text: string): { headers: Record<string, string>; rest: string } {
+  const blankLine = /^\r?\n/.test(text) ? 0 : text.search(/\r?\n\r?\n/);
+  const head = blankLine === -1 ? text : text.substring(0, blankLine);
+  const rest = blankLine === -1 ? "" : text.substring(blankLine).replace(/^(\r?\n){1,2}/, "");
+  const headers: Record<string, string> = {};
+  head.split(/\r?\n/).forEach((line) => {
+    const colon = line.indexOf(":");
+    if (colon > 0) headers[line.substring(0, colon).trim().toLowerCase()] = line.substring(colon + 1).trim();
+  });
+  return { headers, rest };
+}
+
+function splitParts(text: string, boundary: string): string[] {
+  return text
+    .split(`--${boundary}`)
+    .slice(1)
+    .filter((part) => !part.startsWith("--"));
+}
+
+// The responses of a multipart body in order; the parts of a change set come as one nested array
+function parseMultipartResponses(text: string, boundary: string): Array<RawResponse | RawResponse[]> {
+  return splitParts(text, boundary).map((part) => {
+    const { headers, rest } = splitHeaders(part.replace(/^\r?\n/, ""));
+    const nestedBoundary = getBoundary(headers["content-type"]);
+    if (nestedBoundary) {
+      return parseMultipartResponses(rest, nestedBoundary) as RawResponse[];
+    }
+    const message = rest.trimStart();
+    const statusLine = /^HTTP\/[\d.]+\s+(\d{3})/.exec(message);
+    const { headers: responseHeaders, rest: body } = splitHeaders(message.replace(/^.*\r?\n/, ""));
+    return {
+      id: headers["content-id"],
+      status: statusLine ? parseInt(statusLine[1]) : 0,
+      headers: responseHeaders,
+      body: body.replace(/\r?\n$/, ""),
+    };
+  });
+}
+
+// Pair each request with its response: by Content-ID where the server sends it, by position otherwise. A change
+// set that failed as a whole has one response, which every request of the set gets
+function matchResponses(
+  requests: BatchRequest[],
+  responses: Array<RawResponse | RawResponse[]>,
+  format: BatchFormat
+): Array<RawResponse | undefined> {
+  if (format === "json") {
+    const flat = responses as RawResponse[];
+    return requests.map((request) => {
+      const own = flat.find((response) => response.id === request.id);
+      if (own || !request.atomicityGroup) return own;
+      const groupIds = requests.filter((other) => other.atomicityGroup === request.atomicityGroup).map((r) => r.id);
+      return flat.find((response) => response.status >= 400 && (!response.id || groupIds.includes(response.id)));
+    });
+  }
+
+  return groupRequests(requests).flatMap((group, index) => {
+    const response = responses[index];
+    if (!Array.isArray(response)) {
+      return group.map(() => response);
+    }
+    return group.map((request, position) => response.find((part) => part.id === request.id) || response[position]);
+  });
+}
+
+async function toResult(request: BatchRequest, raw: RawResponse | undefined): Promise<BatchResult> {
+  const base = { id: request.id, method: request.method, url: request.url };
+  if (!raw || !raw.status) {
+    const error = new ODataHttpError("No response was returned for this request", {
+      url: request.url,
+      method: request.method,
+      status: 0,
+    });
+    return { ...base, status: 0, ok: false, error };
+  }
+
+  const ok = raw.status >= 200 && raw.status < 300;
+  const headers = Object.fromEntries(Object.entries(raw.headers).map(([name, value]) => [name.toLowerCase(), value]));
+  if (!ok) {
+    const response = new Response(raw.body || null, { status: raw.status, headers });
+    const error = await parseErrorResponse(response, { method: request.method, url: request.url });
+    return { ...base, status: raw.status, ok, error };
+  }
+
+  let data: unknown = undefined;
+  if (raw.body) {
+    try {
+      data = JSON.parse(raw.body);
+    } catch {
+      data = raw.body;
+    }
+  }
+  const bodyEtag = data && typeof data === "object" && "@odata.etag" in data ? data["@odata.etag"] : undefined;
+  return { ...base, status: raw.status, ok, data, etag: (typeof bodyEtag === "string" && bodyEtag) || headers.etag };
+}
+
+// POST the requests to serviceUrl/$batch and resolve with one result per request, in the order they were queued.
+// Only a failure of the $batch request itself rejects; failed operations are reported in their result
+export async function sendBatch(
+  serviceUrl: string,
+  requests: BatchRequest[],
+  { format = "json", signal }: BatchOptions = {},
+  send?: FetchLike
+): Promise<BatchResult[]> {
+  if (requests.length === 0) return [];
+
+  const batchUrl = `${serviceUrl}/$batch`;
+  const boundary = `batch_${Date.now().toString(36)}${Math.random().toString(36).substring(2)}`;
+  const response = await fetchOData(
+    batchUrl,
+    {
+      method: "POST",
+      headers:
+        format === "json"
+          ? { "Content-Type": "application/json", Accept: "application/json" }
+          : { "Content-Type": `multipart/mixed; boundary=${boundary}`, Accept: "multipart/mixed" },
+      body: format === "json" ? serializeJson(requests) : serializeMultipart(requests, boundary),
+      signal,
+    },
+    send
+  );
+
+  // Services may answer in either format whatever was sent
+  const text = await response.text();
+  const responseBoundary = getBoundary(response.headers.get("Content-Type"));
+  const responses = responseBoundary ? parseMultipartResponses(text, responseBoundary) : parseJsonResponses(text);
+  const matched = matchResponses(requests, responses, responseBoundary ? "multipart" : "json");
+  return Promise.all(requests.map((request, index) => toResult(request, matched[index])));
+}
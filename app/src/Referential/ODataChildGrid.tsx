@@ -0,0 +1,105 @@
+import { useMemo } from "react";
+import { createInputFactory } from "../Builder/core/FormTypes";
+import { formatValues } from "../Builder/core/FormTransforms";
+import { getFieldLabel } from "../Builder/core/FormValidation";
+import { NATIVE_INPUT_CONFIG } from "../Builder/FormComponents";
+import { useField, useFieldArray } from "../Builder/core/useForm";
+import type { FieldArrayForm, FieldSource } from "../Builder/core/useForm";
+import type { ChildCollectionSchema } from "./ODataFormSchema";
+
+interface ODataChildGridProps {
+  // Path of the rows in the form values, e.g. "OrderItems"; their fields are "OrderItems[0].Quantity", ...
+  name: string;
+  collection: ChildCollectionSchema;
+  label?: string;
+  disabled?: boolean;
+  formInstance?: FieldArrayForm & FieldSource;
+}
+
+const cellStyle = {
+  padding: "4px",
+  borderBottom: "1px solid #ddd",
+  textAlign: "left" as const,
+  verticalAlign: "top",
+};
+
+const errorStyle = { color: "red", fontSize: "12px", marginTop: "4px" };
+
+// An error of a whole row or of the collection, e.g. "OrderItems[1]" or "OrderItems" from the server
+function GridError({ path, formInstance }: { path: string; formInstance?: FieldSource }) {
+  const { error } = useField(path, formInstance);
+  return error ? <div style={errorStyle}>{error}</div> : null;
+}
+
+// Editable grid for the child rows of a collection navigation property (master-detail), registered as the control
+// of a schema field whose items are the collection's schema. The rows are a field array of the form, so they are
+// validated, computed, tracked as dirty and given server errors by row path like any other field
+export default function ODataChildGrid({ name, collection, label, disabled, formInstance }: ODataChildGridProps) {
+  const { schema, initialValues } = collection;
+
+  const formFactory = useMemo(() => {
+    const factory = createInputFactory(NATIVE_INPUT_CONFIG);
+    factory.initFromJson(schema);
+    return factory;
+  }, [schema]);
+
+  const fieldArray = useFieldArray<Record<string, unknown>>(name, formInstance);
+  const fieldNames = Object.keys(schema);
+
+  return (
+    <div style={{ marginBottom: "16px" }}>
+      <div style={{ fontWeight: "500", marginBottom: "4px" }}>{label || name}</div>
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr>
+            {fieldNames.map((fieldName) => (
+              <th key={fieldName} style={cellStyle}>
+                {getFieldLabel(schema, fieldName)}
+                {!!schema[fieldName].props.required && <span style={{ color: "red", marginLeft: "2px" }}>*</span>}
+              </th>
+            ))}
+            <th style={cellStyle} />
+          </tr>
+        </thead>
+        <tbody>
+          {fieldArray.fields.map(({ key, index, path }) => (
+            <tr key={key}>
+              {fieldNames.map((fieldName) => (
+                <td key={fieldName} style={cellStyle}>
+                  {formFactory.field(
+                    fieldName,
+                    { label: undefined, helpText: undefined, disabled },
+                    formInstance,
+                    path
+                  )}
+                </td>
+              ))}
+              <td style={cellStyle}>
+                <button type="button" onClick={() => fieldArray.remove(index)} disabled={disabled}>
+                  Remove
+                </button>
+                <GridError path={path} formInstance={formInstance} />
+              </td>
+            </tr>
+          ))}
+          {fieldArray.fields.length === 0 && (
+            <tr>
+              <td colSpan={fieldNames.length + 1} style={{ ...cellStyle, color: "#666" }}>
+                No {label || name} added
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+      <button
+        type="button"
+        onClick={() => fieldArray.append(formatValues({ ...initialValues }, schema))}
+        disabled={disabled}
+        style={{ marginTop: "8px" }}
+      >
+        Add {label || name}
+      </button>
+      <GridError path={name} formInstance={formInstance} />
+    </div>
+  );
+}
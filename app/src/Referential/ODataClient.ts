@@ -0,0 +1,226 @@
+import * as React from "react";
+import { ODataBatchBuilder, sendBatch } from "./ODataBatch";
+import type { BatchFormat, BatchOptions, BatchResult } from "./ODataBatch";
+import { fetchOData, ODataHttpError, parseErrorResponse } from "./ODataErrors";
+import { createTransport } from "./ODataTransport";
+import type { FetchLike, TransportOptions } from "./ODataTransport";
+import { findEntitySet, findNavigationTarget, getElementType, parseMetadata } from "./ODataMetadata";
+import type { EntitySetMetadata, NavigationPropertyMetadata, ODataModel } from "./ODataMetadata";
+
+// Matches SetMaxTop(100) on the API; larger $top values are rejected by the server
+export const ODATA_MAX_TOP = 100;
+
+interface ODataResponse<T> {
+  value: T[];
+  "@odata.count"?: number;
+  "@odata.nextLink"?: string;
+}
+
+export interface ODataPage<T> {
+  items: T[];
+  // Only present when the request asked for $count=true
+  totalCount?: number;
+  // Absolute URL of the next page when the server applies server-driven paging
+  nextLink?: string;
+}
+
+// Fetch one page of a collection and keep the OData control information alongside the items
+export async function fetchODataPage<T>(url: string, signal?: AbortSignal, send?: FetchLike): Promise<ODataPage<T>> {
+  const response = await fetchOData(url, { signal }, send);
+  const data: ODataResponse<T> = await response.json();
+  return {
+    items: data.value || [],
+    totalCount: data["@odata.count"],
+    nextLink: data["@odata.nextLink"],
+  };
+}
+
+// Maps an entity set (and its entity type's simple name) to the URL segment the server actually routes
+export type EntitySetPathOverrides =
+  Record<string, string> | ((entitySetName: string, entityTypeName: string) => string | undefined);
+
+export interface ODataClientOptions {
+  baseUrl: string;
+  // Keep the parsed model in localStorage so a reload can skip downloading or parsing an unchanged EDMX
+  persistMetadata?: boolean;
+  // Needed when routing diverges from the EntityContainer, e.g. attribute routes on odata/[Controller]
+  entitySetPaths?: EntitySetPathOverrides;
+  // Auth, interceptors, retries and timeouts for every request of the service, or a mock fetch for tests
+  transport?: TransportOptions;
+}
+
+interface PersistedMetadata {
+  etag?: string;
+  hash: string;
+  model: ODataModel;
+}
+
+// Cheap string hash (djb2) used to detect an unchanged EDMX when the server sends no ETag
+function hashText(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16);
+}
+
+function readPersistedMetadata(storageKey: string): PersistedMetadata | null {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    return stored ? (JSON.parse(stored) as PersistedMetadata) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writePersistedMetadata(storageKey: string, entry: PersistedMetadata) {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(entry));
+  } catch (err) {
+    console.warn("Unable to persist OData metadata:", err);
+  }
+}
+
+// Service-level client: owns everything that is shared by all entities of one OData service
+export class ODataClient {
+  readonly baseUrl: string;
+  // The transport every request of this service goes through; returns failed responses like fetch does
+  readonly send: FetchLike;
+  private persistMetadata: boolean;
+  private entitySetPaths?: EntitySetPathOverrides;
+  private metadataPromise: Promise<ODataModel> | null = null;
+  // Switched to multipart once the service has refused a JSON batch
+  private batchFormat: BatchFormat = "json";
+
+  constructor({ baseUrl, persistMetadata = false, entitySetPaths, transport }: ODataClientOptions) {
+    this.baseUrl = baseUrl;
+    this.send = createTransport(transport);
+    this.persistMetadata = persistMetadata;
+    this.entitySetPaths = entitySetPaths;
+  }
+
+  private get storageKey() {
+    return `odata-metadata:${this.baseUrl}`;
+  }
+
+  // Send a request through the transport, throwing the parsed ODataClientError when it fails (see fetchOData)
+  request = (url: string, init: RequestInit = {}): Promise<Response> => fetchOData(url, init, this.send);
+
+  // Fetch and parse $metadata once; concurrent callers share the same request
+  getMetadata(): Promise<ODataModel> {
+    if (!this.metadataPromise) {
+      this.metadataPromise = this.loadMetadata().catch((err) => {
+        // Allow a later call to retry after a failure
+        this.metadataPromise = null;
+        throw err;
+      });
+    }
+    return this.metadataPromise;
+  }
+
+  // Drop the cached model, e.g. after the service has been redeployed
+  invalidateMetadata() {
+    this.metadataPromise = null;
+    if (this.persistMetadata) {
+      localStorage.removeItem(this.storageKey);
+    }
+  }
+
+  private applyPathOverride(entitySet: EntitySetMetadata | null, entityTypeName: string): string {
+    const simpleTypeName = entityTypeName.substring(entityTypeName.lastIndexOf(".") + 1);
+    const entitySetName = entitySet?.name || simpleTypeName;
+    const override =
+      typeof this.entitySetPaths === "function"
+        ? this.entitySetPaths(entitySetName, simpleTypeName)
+        : this.entitySetPaths?.[entitySetName] || this.entitySetPaths?.[simpleTypeName];
+    return override || entitySetName;
+  }
+
+  // URL segment for the entity set of an entity type, e.g. "Product" -> "Products"
+  getEntitySetPath(model: ODataModel, entityTypeName: string): string {
+    return this.applyPathOverride(findEntitySet(model, entityTypeName), entityTypeName);
+  }
+
+  // URL segment for the entity set a navigation property of the given entity type points to
+  getNavigationPath(model: ODataModel, entityTypeName: string, navigationProperty: NavigationPropertyMetadata): string {
+    const target = findNavigationTarget(model, findEntitySet(model, entityTypeName), navigationProperty);
+    return this.applyPathOverride(target, getElementType(navigationProperty.type));
+  }
+
+  // Send the requests queued by build in one $batch round trip, e.g. an order and its items in one change set:
+  //   client.batch((b) => b.changeSet((cs) => { const order = cs.create("Orders", o); cs.create(`${order.ref}/Items`, i); }))
+  // Resolves with one result per request in the order queued; failed requests carry their error instead of rejecting
+  async batch(build: (batch: ODataBatchBuilder) => void, options: BatchOptions = {}): Promise<BatchResult[]> {
+    const builder = new ODataBatchBuilder();
+    build(builder);
+    const requests = builder.getRequests();
+    const serviceUrl = `${this.baseUrl}/odata`;
+    const format = options.format || this.batchFormat;
+
+    try {
+      return await sendBatch(serviceUrl, requests, { ...options, format }, this.send);
+    } catch (err) {
+      // Services that only implement OData 4.0 batching reject the JSON format outright
+      if (format === "json" && !options.format && err instanceof ODataHttpError && [406, 415].includes(err.status)) {
+        this.batchFormat = "multipart";
+        return sendBatch(serviceUrl, requests, { ...options, format: "multipart" }, this.send);
+      }
+      throw err;
+    }
+  }
+
+  private async loadMetadata(): Promise<ODataModel> {
+    const persisted = this.persistMetadata ? readPersistedMetadata(this.storageKey) : null;
+
+    const headers: Record<string, string> = {};
+    if (persisted?.etag) {
+      headers["If-None-Match"] = persisted.etag;
+    }
+
+    const response = await this.send(`${this.baseUrl}/odata/$metadata`, { headers });
+    if (response.status === 304 && persisted) {
+      return persisted.model;
+    }
+    if (!response.ok) {
+      throw await parseErrorResponse(response);
+    }
+
+    const xmlText = await response.text();
+    const hash = hashText(xmlText);
+    if (persisted && persisted.hash === hash) {
+      return persisted.model;
+    }
+
+    const model = parseMetadata(xmlText);
+    if (this.persistMetadata) {
+      writePersistedMetadata(this.storageKey, { etag: response.headers.get("ETag") || undefined, hash, model });
+    }
+    return model;
+  }
+}
+
+// Clients created outside of an <ODataProvider>, one per baseUrl
+const clients = new Map<string, ODataClient>();
+
+export function getODataClient(baseUrl: string): ODataClient {
+  let client = clients.get(baseUrl);
+  if (!client) {
+    client = new ODataClient({ baseUrl });
+    clients.set(baseUrl, client);
+  }
+  return client;
+}
+
+export const ODataContext = React.createContext<ODataClient | undefined>(undefined);
+
+// Resolve the client for a service: the provider's client when it serves the same baseUrl, otherwise a shared one
+export function useODataClient(baseUrl?: string): ODataClient {
+  const context = React.useContext(ODataContext);
+  if (context && (!baseUrl || context.baseUrl === baseUrl)) {
+    return context;
+  }
+  if (!baseUrl) {
+    throw new Error("useODataClient must be used inside <ODataProvider> or be given a baseUrl");
+  }
+  return getODataClient(baseUrl);
+}
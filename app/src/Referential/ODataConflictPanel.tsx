@@ -0,0 +1,112 @@
+import { useState } from "react";
+
+// A field the server changed while it was being edited
+export interface ConflictField {
+  name: string;
+  label: string;
+  mine: unknown;
+  theirs: unknown;
+  mineChanged: boolean; // Both sides changed it, so one has to be chosen
+}
+
+interface ODataConflictPanelProps {
+  fields: ConflictField[];
+  // Discard the edits and continue from the server's version
+  onReload: () => void;
+  // Continue from the server's version but keep the edits, except the listed fields, which take the server's value
+  onKeepMine: (takeTheirs: string[]) => void;
+}
+
+function displayValue(value: unknown): string {
+  if (value === "" || value === null || value === undefined) return "(empty)";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+// Side-by-side view of the fields changed by someone else since the form was loaded, shown after a save failed
+// with a concurrency error
+export default function ODataConflictPanel({ fields, onReload, onKeepMine }: ODataConflictPanelProps) {
+  const [takeTheirs, setTakeTheirs] = useState<string[]>([]);
+
+  const choose = (name: string, theirs: boolean) => {
+    setTakeTheirs((current) => (theirs ? [...current, name] : current.filter((field) => field !== name)));
+  };
+
+  const cellStyle = {
+    padding: "6px",
+    borderBottom: "1px solid #eee",
+    textAlign: "left" as const,
+    verticalAlign: "top",
+  };
+
+  return (
+    <div
+      style={{
+        marginTop: "15px",
+        padding: "10px",
+        backgroundColor: "#fff3cd",
+        border: "1px solid #ffeeba",
+        borderRadius: "4px",
+        color: "#856404",
+      }}
+    >
+      <strong>This record was changed by someone else while you were editing it.</strong> Reload their version, or keep
+      your values where you changed them and save again.
+      <table style={{ width: "100%", borderCollapse: "collapse", margin: "10px 0" }}>
+        <thead>
+          <tr>
+            <th style={cellStyle}>Field</th>
+            <th style={cellStyle}>Yours</th>
+            <th style={cellStyle}>Theirs</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map((field) => (
+            <tr key={field.name}>
+              <td style={cellStyle}>{field.label}</td>
+              <td style={cellStyle}>
+                {field.mineChanged ? (
+                  <label>
+                    <input
+                      type="radio"
+                      name={`conflict-${field.name}`}
+                      checked={!takeTheirs.includes(field.name)}
+                      onChange={() => choose(field.name, false)}
+                    />{" "}
+                    {displayValue(field.mine)}
+                  </label>
+                ) : (
+                  <span style={{ color: "#999" }}>(not changed)</span>
+                )}
+              </td>
+              <td style={cellStyle}>
+                {field.mineChanged ? (
+                  <label>
+                    <input
+                      type="radio"
+                      name={`conflict-${field.name}`}
+                      checked={takeTheirs.includes(field.name)}
+                      onChange={() => choose(field.name, true)}
+                    />{" "}
+                    {displayValue(field.theirs)}
+                  </label>
+                ) : (
+                  displayValue(field.theirs)
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ display: "flex", gap: "10px", justifyContent: "flex-end" }}>
+        <button type="button" onClick={onReload} style={{ padding: "6px 12px", cursor: "pointer" }}>
+          Reload theirs
+        </button>
+        <button type="button" onClick={() => onKeepMine(takeTheirs)} style={{ padding: "6px 12px", cursor: "pointer" }}>
+          Keep mine
+        </button>
+      </div>
+    </div>
+  );
+}
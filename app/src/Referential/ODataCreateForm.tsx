@@ -1,21 +1,45 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import { useState } from "react";
+import { useEffect, useMemo, useRef } from "react";
 import { useODataCRUD } from "./useODataCRUD";
 import { useForm } from "../Builder/core/useForm";
 import { NATIVE_INPUT_CONFIG } from "../Builder/FormComponents";
+import type { ValidationSchema } from "../Builder/core/FormValidation";
+import type { EntityFieldConditions } from "./useODataCRUD";
+import type { FormLayout } from "../Builder/core/FormLayout";
+import ODataChildGrid from "./ODataChildGrid";
+
+// The native inputs, plus the child grid for the "collection" fields holding the rows of a navigation property
+const CREATE_FORM_CONFIG = {
+  ...NATIVE_INPUT_CONFIG,
+  components: { ...NATIVE_INPUT_CONFIG.components, collection: ODataChildGrid },
+};
 
 interface ODataCreateFormProps {
   baseUrl: string;
   entityName: string;
+  // Collection navigation properties edited as child grids and created together with the entity, e.g. ["OrderItems"]
+  collections?: string[];
+  // Fields that must not already exist on the server, checked as the user leaves them, e.g. ["OrderNumber"]
+  unique?: string[];
+  // Conditional visibility, enablement, requiredness and computed values, by entity type and field
+  conditions?: EntityFieldConditions;
+  // Sections, columns and tabs for the generated fields; a single column in metadata order when omitted
+  layout?: FormLayout;
 }
 
-export default function ODataCreateForm({ baseUrl, entityName }: ODataCreateFormProps) {
-  const [isSubmitting, setIsSubmitting] = useState(false);
-
+export default function ODataCreateForm({
+  baseUrl,
+  entityName,
+  collections = [],
+  unique,
+  conditions,
+  layout,
+}: ODataCreateFormProps) {
   // Use the OData CRUD hook with entity name
-  const { create, formSchema, loading, allMetadata } = useODataCRUD({
+  const { create, createWithChildren, formSchema, allMetadata } = useODataCRUD({
     baseUrl,
     entityName,
+    unique,
+    conditions,
   });
 
   console.log(
@@ -26,46 +50,62 @@ export default function ODataCreateForm({ baseUrl, entityName }: ODataCreateForm
   );
   console.log("Form schema details:", formSchema.schema);
 
-  const { schema, initialValues } = formSchema;
+  // Read when the schema is built so an inline collections array does not rebuild it on every render
+  const collectionsRef = useRef(collections);
+  collectionsRef.current = collections;
+
+  // The rows of each edited collection are a field of the form, e.g. OrderItems[0].Quantity, whose items are the
+  // child entity's schema; the form validates, computes and parses them with the entity's own fields
+  const { schema, initialValues } = useMemo(() => {
+    const childCollections = collectionsRef.current
+      .map((name) => formSchema.collections[name])
+      .filter((collection) => !!collection);
+    const collectionFields: ValidationSchema = Object.fromEntries(
+      childCollections.map((collection) => [
+        collection.navigationProperty,
+        { type: "collection", props: { label: collection.navigationProperty, collection }, items: collection.schema },
+      ])
+    );
+    return {
+      schema: { ...formSchema.schema, ...collectionFields },
+      initialValues: {
+        ...formSchema.initialValues,
+        ...Object.fromEntries(childCollections.map((collection) => [collection.navigationProperty, []])),
+      },
+    };
+  }, [formSchema]);
 
   // Create form instance with standard config
-  const [formInstance] = useForm(initialValues, schema, NATIVE_INPUT_CONFIG);
-
-  // Handle form submission
-  const handleSubmit = async () => {
-    if (formInstance.validateFields()) {
-      setIsSubmitting(true);
-      try {
-        const createdEntity = await create(formInstance.values);
-        console.log("Successfully created entity:", createdEntity);
-        alert(`Successfully created ${entityName}!`);
-      } catch (error) {
-        console.log("Form submission error:", error);
-
-        // Handle backend validation errors
-        if (error && typeof error === "object" && "type" in error && error.type === "validation") {
-          // Set field-specific validation errors from backend
-          const validationErrors = (error as any).errors;
-          console.log("Setting validation errors:", validationErrors);
-          Object.entries(validationErrors).forEach(([fieldName, errorMessage]) => {
-            console.log(`Setting error for field ${fieldName}:`, errorMessage);
-            formInstance.setError(fieldName as any, errorMessage as string);
-          });
-        } else {
-          // Handle other errors
-          const errorMessage = error instanceof Error ? error.message : "Failed to create entity";
-          console.log("Non-validation error:", errorMessage);
-          alert(`Error: ${errorMessage}`);
-        }
-      } finally {
-        setIsSubmitting(false);
-      }
-    }
-  };
-
-  // Loading state - show loading when metadata is not yet loaded
-  if (loading || !allMetadata) {
-    console.log(`Form ${entityName} - Loading state: loading=${loading}, allMetadata=${!!allMetadata}`);
+  // Errors stay hidden until a field is left or a submit is attempted, so a fresh form does not start out red.
+  // submit validates, parses and reports failures: validation errors from the server land on their fields
+  const [formInstance] = useForm(initialValues, schema, CREATE_FORM_CONFIG, undefined, {
+    showErrors: "touched",
+    validateOn: "blur",
+    onSubmit: async (values) => {
+      // The values come without hidden fields and parsed, the rows' as the entity's; the rows go to the children
+      const entity = { ...values };
+      const children: Record<string, Record<string, unknown>[]> = {};
+      collections.forEach((name) => {
+        children[name] = Array.isArray(values[name]) ? (values[name] as Record<string, unknown>[]) : [];
+        delete entity[name];
+      });
+      const createdEntity = collections.length > 0 ? await createWithChildren(entity, children) : await create(entity);
+      console.log("Successfully created entity:", createdEntity);
+      alert(`Successfully created ${entityName}!`);
+    },
+  });
+  const { isSubmitting, isValidating, formError, resetValues } = formInstance;
+
+  // Start from the generated initial values once the schema has been built from metadata
+  useEffect(() => {
+    resetValues(initialValues);
+  }, [resetValues, initialValues]);
+
+  const visibleErrors = Object.entries(formInstance.errors).filter(([field]) => formInstance.getVisibleError(field));
+
+  // Loading state - show loading when metadata is not yet loaded; a create in flight keeps the form on screen
+  if (!allMetadata) {
+    console.log(`Form ${entityName} - Loading state: allMetadata=${!!allMetadata}`);
     return <div>Loading form configuration for {entityName}...</div>;
   }
 
@@ -74,6 +114,12 @@ export default function ODataCreateForm({ baseUrl, entityName }: ODataCreateForm
     return <div>No form configuration found for {entityName}</div>;
   }
 
+  // The child grids are locked while the entity and its rows are being created
+  const gridOverrides = Object.fromEntries(collections.map((name) => [name, { disabled: isSubmitting }]));
+
+  // Also while an async check such as uniqueness is running: its result decides whether the form is valid
+  const createDisabled = isSubmitting || isValidating || !formInstance.isValid;
+
   return (
     <div style={{ maxWidth: "600px", margin: "0 auto", padding: "20px" }}>
       <div
@@ -86,7 +132,7 @@ export default function ODataCreateForm({ baseUrl, entityName }: ODataCreateForm
         }}
       >
         <h2 style={{ marginBottom: "20px", color: "#333" }}>Create New {entityName}</h2>
-        <div>{formInstance.renderAll()}</div>
+        <div>{layout ? formInstance.renderLayout(layout, gridOverrides) : formInstance.renderAll(gridOverrides)}</div>
 
         {/* Action Buttons */}
         <div
@@ -118,15 +164,15 @@ export default function ODataCreateForm({ baseUrl, entityName }: ODataCreateForm
 
           <button
             type="button"
-            onClick={handleSubmit}
-            disabled={isSubmitting || Object.keys(formInstance.errors).length > 0}
+            onClick={() => formInstance.submit()}
+            disabled={createDisabled}
             style={{
               padding: "10px 20px",
               border: "none",
               borderRadius: "4px",
-              backgroundColor: isSubmitting || Object.keys(formInstance.errors).length > 0 ? "#6c757d" : "#007bff",
+              backgroundColor: createDisabled ? "#6c757d" : "#007bff",
               color: "white",
-              cursor: isSubmitting || Object.keys(formInstance.errors).length > 0 ? "not-allowed" : "pointer",
+              cursor: createDisabled ? "not-allowed" : "pointer",
               fontSize: "14px",
             }}
           >
@@ -134,8 +180,24 @@ export default function ODataCreateForm({ baseUrl, entityName }: ODataCreateForm
           </button>
         </div>
 
+        {/* Submit failure that belongs to no field */}
+        {formError && (
+          <div
+            style={{
+              marginTop: "15px",
+              padding: "10px",
+              backgroundColor: "#f8d7da",
+              border: "1px solid #f5c6cb",
+              borderRadius: "4px",
+              color: "#721c24",
+            }}
+          >
+            <strong>Error:</strong> {formError}
+          </div>
+        )}
+
         {/* Validation Errors */}
-        {Object.keys(formInstance.errors).length > 0 && (
+        {visibleErrors.length > 0 && (
           <div
             style={{
               marginTop: "15px",
@@ -148,7 +210,7 @@ export default function ODataCreateForm({ baseUrl, entityName }: ODataCreateForm
           >
             <strong>Please fix the following errors:</strong>
             <ul style={{ margin: "5px 0", paddingLeft: "20px" }}>
-              {Object.entries(formInstance.errors).map(([field, error]) => (
+              {visibleErrors.map(([field, error]) => (
                 <li key={field}>{error as string}</li>
               ))}
             </ul>
@@ -0,0 +1,365 @@
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { isAbortError, ODataConcurrencyError, useODataCRUD } from "./useODataCRUD";
+import ODataConflictPanel from "./ODataConflictPanel";
+import type { ConflictField } from "./ODataConflictPanel";
+import { useForm } from "../Builder/core/useForm";
+import { getIn, parsePath } from "../Builder/core/FormPath";
+import { NATIVE_INPUT_CONFIG } from "../Builder/FormComponents";
+import { getFieldLabel } from "../Builder/core/FormValidation";
+import type { EntityKey } from "./ODataQuery";
+import type { FormLayout } from "../Builder/core/FormLayout";
+
+interface ODataEditFormProps {
+  baseUrl: string;
+  entityName: string;
+  // A single value, or an object such as { OrderId: 1, ProductId: 2 } for composite keys
+  entityKey: EntityKey;
+  // Send the whole entity with PUT instead of only the changed fields with PATCH
+  fullReplace?: boolean;
+  // Sections, columns and tabs for the generated fields; a single column in metadata order when omitted
+  layout?: FormLayout;
+}
+
+// Map a loaded entity onto the generated schema so every control gets a value it can display
+function mapEntityToFormValues(entity: Record<string, unknown>, schema: Record<string, { type: string }>) {
+  const values: Record<string, unknown> = {};
+  Object.entries(schema).forEach(([fieldName, { type }]) => {
+    const value = entity[fieldName];
+    if (value === null || value === undefined) {
+      values[fieldName] = type === "checkbox" ? false : "";
+    } else if (type === "date" && typeof value === "string") {
+      // Date inputs only accept yyyy-MM-dd, the server returns full ISO timestamps
+      values[fieldName] = value.substring(0, 10);
+    } else {
+      values[fieldName] = value;
+    }
+  });
+  return values;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+}
+
+export default function ODataEditForm({
+  baseUrl,
+  entityName,
+  entityKey,
+  fullReplace = false,
+  layout,
+}: ODataEditFormProps) {
+  const [loadedEntity, setLoadedEntity] = useState<Record<string, unknown> | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  // Why the entity could not be read (network error, 401, 500, ...); Retry bumps loadAttempt to read it again
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  // The server's version after a save was refused because the entity changed since it was loaded
+  const [conflict, setConflict] = useState<{ entity: Record<string, unknown>; values: Record<string, unknown> } | null>(
+    null
+  );
+  // The entity the form's values were last reset to
+  const shownEntityRef = useRef<Record<string, unknown> | null>(null);
+
+  // Use the OData CRUD hook with entity name
+  const { getById, patch, update, formSchema, allMetadata } = useODataCRUD<Record<string, unknown>>({
+    baseUrl,
+    entityName,
+  });
+
+  const { schema, initialValues } = formSchema;
+
+  // The loaded entity as form values; they are the form's initial values, so its dirty tracking is against them
+  const loadedValues = useMemo(
+    () => (loadedEntity && Object.keys(schema).length > 0 ? mapEntityToFormValues(loadedEntity, schema) : null),
+    [loadedEntity, schema]
+  );
+
+  // Create form instance with standard config
+  const [formInstance] = useForm(loadedValues || initialValues, schema, NATIVE_INPUT_CONFIG);
+  const { isSubmitting, isValidating, isDirty, formError, resetValues } = formInstance;
+
+  // Composite keys arrive as fresh objects on every render, so the effect keys off their serialized form
+  const entityKeyJson = JSON.stringify(entityKey);
+  const keyLabel = typeof entityKey === "object" ? Object.values(entityKey).join(", ") : String(entityKey);
+
+  // Load the entity being edited; a load still in flight when the key changes is aborted
+  useEffect(() => {
+    const controller = new AbortController();
+    setNotFound(false);
+    setLoadError(null);
+    setLoadedEntity(null);
+    setConflict(null);
+
+    getById(JSON.parse(entityKeyJson), undefined, { signal: controller.signal })
+      .then((entity) => {
+        if (!entity) {
+          setNotFound(true);
+          return;
+        }
+        setLoadedEntity(entity);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        setLoadError(error instanceof Error ? error.message : "Unknown error occurred");
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [getById, entityKeyJson, loadAttempt]);
+
+  // Once both the schema and a newly read entity are available, reset the form to it before the browser paints,
+  // so the generated empty values never show
+  useLayoutEffect(() => {
+    if (!loadedEntity || !loadedValues || shownEntityRef.current === loadedEntity) return;
+    shownEntityRef.current = loadedEntity;
+    resetValues();
+  }, [loadedEntity, loadedValues, resetValues]);
+
+  // Show a saved or re-read entity. The values are reset in the same update that makes the entity the initial
+  // values, so they and the dirty state never lag behind; keptValues are edits carried over, dirty against it
+  const showEntity = (entity: Record<string, unknown>, keptValues?: Record<string, unknown>) => {
+    shownEntityRef.current = entity;
+    setLoadedEntity(entity);
+    resetValues(keptValues || mapEntityToFormValues(entity, schema));
+  };
+
+  // Entity properties with a dirty path, e.g. "Tags" for "Tags[1]": PATCH sends whole properties
+  const changedFields = useMemo(
+    () => [...new Set(Object.keys(formInstance.dirty).map((path) => String(parsePath(path)[0])))],
+    [formInstance.dirty]
+  );
+
+  // Fields the server changed since the form was loaded, with the value in the form next to the server's
+  const conflictFields = useMemo<ConflictField[]>(() => {
+    if (!conflict || !loadedValues) return [];
+    return Object.keys(conflict.values)
+      .filter((name) => !isSameValue(conflict.values[name], loadedValues[name]))
+      .map((name) => ({
+        name,
+        label: getFieldLabel(schema, name),
+        mine: formInstance.values[name],
+        theirs: conflict.values[name],
+        mineChanged: changedFields.includes(name),
+      }));
+  }, [conflict, loadedValues, schema, formInstance.values, changedFields]);
+
+  // Continue from the server's version: the fields only they changed take their value, the fields both changed
+  // keep the form's unless listed in takeTheirs. Saving then sends the ETag of the version just read
+  const resolveConflict = (takeTheirs: string[]) => {
+    if (!conflict) return;
+    const values = { ...formInstance.values };
+    conflictFields.forEach((field) => {
+      if (!field.mineChanged || takeTheirs.includes(field.name)) {
+        values[field.name] = field.theirs;
+      }
+    });
+    showEntity(conflict.entity, values);
+    setConflict(null);
+  };
+
+  const reloadTheirs = () => {
+    if (!conflict) return;
+    showEntity(conflict.entity);
+    setConflict(null);
+  };
+
+  // Handle form submission: submit validates, parses the values and maps validation errors from the server onto
+  // the fields; other failures end up in formError
+  const handleSubmit = () => {
+    if (!loadedEntity || !isDirty) return;
+
+    formInstance.submit(async (values) => {
+      let savedEntity: Record<string, unknown> | undefined;
+      try {
+        if (fullReplace) {
+          // Drop OData control information such as @odata.context before sending the entity back
+          const entity = Object.fromEntries(Object.entries(loadedEntity).filter(([key]) => !key.startsWith("@")));
+          savedEntity = await update(entityKey, { ...entity, ...values });
+        } else {
+          const changes = Object.fromEntries(changedFields.map((fieldName) => [fieldName, getIn(values, fieldName)]));
+          savedEntity = await patch(entityKey, changes);
+        }
+      } catch (err) {
+        // The If-Match ETag is stale: read the server's version (and its ETag) to resolve the conflict against
+        if (err instanceof ODataConcurrencyError) {
+          const latest = await getById(entityKey).catch(() => null);
+          if (latest) {
+            setConflict({ entity: latest, values: mapEntityToFormValues(latest, schema) });
+          }
+        }
+        throw err;
+      }
+      showEntity(savedEntity || { ...loadedEntity, ...values });
+      alert(`Successfully saved ${entityName}!`);
+    });
+  };
+
+  if (notFound) {
+    return (
+      <div>
+        {entityName} with key {keyLabel} was not found
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <div style={{ maxWidth: "600px", margin: "0 auto", padding: "20px" }}>
+        <div
+          style={{
+            padding: "10px",
+            backgroundColor: "#f8d7da",
+            border: "1px solid #f5c6cb",
+            borderRadius: "4px",
+            color: "#721c24",
+          }}
+        >
+          <strong>
+            Could not load {entityName} {keyLabel}:
+          </strong>{" "}
+          {loadError}
+        </div>
+        <button type="button" onClick={() => setLoadAttempt((attempt) => attempt + 1)} style={{ marginTop: "10px" }}>
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  // Loading state - wait for both the metadata and the entity
+  if (!allMetadata || !loadedEntity) {
+    return (
+      <div>
+        Loading {entityName} {keyLabel}...
+      </div>
+    );
+  }
+
+  // No form configuration state - only show this if we have metadata but no schema
+  if (!schema || Object.keys(schema).length === 0) {
+    return <div>No form configuration found for {entityName}</div>;
+  }
+
+  const hasErrors = Object.keys(formInstance.errors).length > 0;
+  // A conflict is resolved first: the ETag now held is the server's, so saving would overwrite their changes
+  const saveDisabled = isSubmitting || isValidating || !isDirty || hasErrors || !!conflict;
+
+  return (
+    <div style={{ maxWidth: "600px", margin: "0 auto", padding: "20px" }}>
+      <div
+        style={{
+          border: "1px solid #ddd",
+          borderRadius: "8px",
+          padding: "20px",
+          backgroundColor: "#fff",
+          boxShadow: "0 2px 4px rgba(0,0,0,0.1)",
+        }}
+      >
+        <h2 style={{ marginBottom: "20px", color: "#333" }}>
+          Edit {entityName} {keyLabel}
+        </h2>
+        <div>{layout ? formInstance.renderLayout(layout) : formInstance.renderAll()}</div>
+
+        {/* Action Buttons */}
+        <div
+          style={{
+            marginTop: "20px",
+            display: "flex",
+            gap: "10px",
+            justifyContent: "flex-end",
+            alignItems: "center",
+          }}
+        >
+          {isDirty && (
+            <span style={{ color: "#666", fontSize: "12px", marginRight: "auto" }}>
+              Changed: {changedFields.join(", ")}
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={() => resetValues()}
+            disabled={isSubmitting || !isDirty}
+            style={{
+              padding: "10px 20px",
+              border: "1px solid #ddd",
+              borderRadius: "4px",
+              backgroundColor: "#f8f9fa",
+              cursor: "pointer",
+              fontSize: "14px",
+            }}
+          >
+            Revert
+          </button>
+
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={saveDisabled}
+            style={{
+              padding: "10px 20px",
+              border: "none",
+              borderRadius: "4px",
+              backgroundColor: saveDisabled ? "#6c757d" : "#007bff",
+              color: "white",
+              cursor: saveDisabled ? "not-allowed" : "pointer",
+              fontSize: "14px",
+            }}
+          >
+            {isSubmitting ? "Saving..." : "Save"}
+          </button>
+        </div>
+
+        {conflict && (
+          <ODataConflictPanel
+            // Remount for each conflict so earlier choices do not carry over
+            key={String(conflict.entity["@odata.etag"] || JSON.stringify(conflict.values))}
+            fields={conflictFields}
+            onReload={reloadTheirs}
+            onKeepMine={resolveConflict}
+          />
+        )}
+
+        {/* Submit failure that belongs to no field */}
+        {formError && (
+          <div
+            style={{
+              marginTop: "15px",
+              padding: "10px",
+              backgroundColor: "#f8d7da",
+              border: "1px solid #f5c6cb",
+              borderRadius: "4px",
+              color: "#721c24",
+            }}
+          >
+            <strong>Error:</strong> {formError}
+          </div>
+        )}
+
+        {/* Validation Errors */}
+        {hasErrors && (
+          <div
+            style={{
+              marginTop: "15px",
+              padding: "10px",
+              backgroundColor: "#f8d7da",
+              border: "1px solid #f5c6cb",
+              borderRadius: "4px",
+              color: "#721c24",
+            }}
+          >
+            <strong>Please fix the following errors:</strong>
+            <ul style={{ margin: "5px 0", paddingLeft: "20px" }}>
+              {Object.entries(formInstance.errors).map(([field, error]) => (
+                <li key={field}>{error as string}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
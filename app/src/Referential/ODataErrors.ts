@@ -0,0 +1,254 @@
+import { joinPath } from "../Builder/core/FormPath";
+import type { FetchLike } from "./ODataTransport";
+
+// Base of every error the OData hooks and client throw, so callers can tell them from their own bugs
+export class ODataClientError extends Error {
+  override name = "ODataClientError";
+  readonly url: string;
+  readonly method: string;
+
+  constructor(message: string, { url, method, cause }: { url: string; method: string; cause?: unknown }) {
+    super(message, { cause });
+    this.url = url;
+    this.method = method;
+  }
+}
+
+// The request never got a response: the server is down, CORS refused it, the connection dropped
+export class ODataNetworkError extends ODataClientError {
+  override name = "ODataNetworkError";
+}
+
+// No response arrived within the transport's timeout
+export class ODataTimeoutError extends ODataNetworkError {
+  override name = "ODataTimeoutError";
+}
+
+interface HttpErrorDetails {
+  url: string;
+  method: string;
+  status: number;
+  code?: string;
+  body?: unknown;
+}
+
+// The server answered with a status outside 2xx
+export class ODataHttpError extends ODataClientError {
+  override name = "ODataHttpError";
+  readonly status: number;
+  readonly code?: string; // OData error.code or ProblemDetails type, when the body has one
+  readonly body?: unknown; // Parsed JSON, the text when it is not JSON, undefined when empty
+
+  constructor(message: string, { status, code, body, ...request }: HttpErrorDetails) {
+    super(message, request);
+    this.status = status;
+    this.code = code;
+    this.body = body;
+  }
+}
+
+// A deep insert failed without a response that says whether it was applied: a network error, a timeout or a
+// 5xx. The entity may exist on the server, so look it up before creating it again. The failure is in cause
+export class ODataDeepInsertError extends ODataClientError {
+  override name = "ODataDeepInsertError";
+}
+
+// 404: the entity or entity set does not exist
+export class ODataNotFoundError extends ODataHttpError {
+  override name = "ODataNotFoundError";
+}
+
+// 412: the entity was changed by someone else since it was read
+export class ODataConcurrencyError extends ODataHttpError {
+  override name = "ODataConcurrencyError";
+}
+
+// The server rejected the values sent. Field paths follow the form's: "Name", "OrderItems[2].Quantity". Its shape
+// also matches the form's SubmitValidationError, so it can be rethrown from onSubmit as is
+export class ODataValidationError extends ODataHttpError {
+  override name = "ODataValidationError";
+  readonly type = "validation";
+  readonly errors: Record<string, string[]>;
+
+  constructor(message: string, errors: Record<string, string[]>, details: HttpErrorDetails) {
+    super(message, details);
+    this.errors = errors;
+  }
+
+  // The same error with every field path prefixed, e.g. to report a child row's errors as "OrderItems[2].Quantity"
+  withPathPrefix(prefix: string): ODataValidationError {
+    const errors = Object.fromEntries(
+      Object.entries(this.errors).map(([path, messages]) => [`${prefix}.${path}`, messages])
+    );
+    return new ODataValidationError(this.message, errors, this);
+  }
+}
+
+// "#/OrderItems/0/Quantity", "/Name" or "$.OrderItems[0].Quantity" -> "OrderItems[0].Quantity"
+function toFieldPath(target: string): string {
+  if (target.startsWith("#/") || target.startsWith("/")) {
+    const segments = target
+      .replace(/^#?\//, "")
+      .split("/")
+      .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+    return joinPath(...segments.map((segment) => (/^\d+$/.test(segment) ? parseInt(segment) : segment)));
+  }
+  return target.replace(/^\$\.?/, "");
+}
+
+// Collect a ModelState-style dictionary, { "Name": ["Required", "Too short"] }; keys that name no field ("" or
+// "$", e.g. an unreadable body) go to general
+function addDictionary(source: Record<string, unknown>, errors: Record<string, string[]>, general: string[]) {
+  Object.entries(source).forEach(([key, value]) => {
+    const messages = (Array.isArray(value) ? value : [value]).filter(
+      (message): message is string => typeof message === "string" && message !== ""
+    );
+    if (messages.length === 0) return;
+    const path = toFieldPath(key);
+    if (path) {
+      errors[path] = [...(errors[path] || []), ...messages];
+    } else {
+      general.push(...messages);
+    }
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object";
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function isDictionary(value: unknown): value is Record<string, string | string[]> {
+  return (
+    isRecord(value) &&
+    !Array.isArray(value) &&
+    Object.values(value).every(
+      (entry) => typeof entry === "string" || (Array.isArray(entry) && entry.every((item) => typeof item === "string"))
+    )
+  );
+}
+
+// Field errors and a summary message from any of the bodies ASP.NET and OData send for a failed request:
+// - ValidationProblemDetails: { title, status, errors: { "Name": ["..."] } }
+// - OData errors: { error: { code, message, details: [{ target: "#/Name", message }] } }
+// - ModelState, bare or as error.message: { "Name": ["..."] }
+// - empty, plain text or HTML bodies, which only give a message
+function parseErrorBody(body: unknown): { message?: string; code?: string; errors: Record<string, string[]> } {
+  const errors: Record<string, string[]> = {};
+  const general: string[] = [];
+
+  if (typeof body === "string") {
+    // Keep short texts as the message; HTML error pages are useless in an alert
+    const text = body.trim();
+    return { message: text && text.length <= 300 && !text.startsWith("<") ? text : undefined, errors };
+  }
+  if (!isRecord(body)) {
+    return { errors };
+  }
+
+  if (isRecord(body.error)) {
+    const { code, message, details } = body.error;
+    if (Array.isArray(details)) {
+      details.forEach((detail: unknown) => {
+        if (!isRecord(detail) || typeof detail.message !== "string") return;
+        if (typeof detail.target === "string" && detail.target) {
+          addDictionary({ [detail.target]: detail.message }, errors, general);
+        } else {
+          general.push(detail.message);
+        }
+      });
+    }
+    if (isDictionary(message)) {
+      addDictionary(message, errors, general);
+    }
+    return {
+      message: asString(message) ?? general[0],
+      code: asString(code),
+      errors,
+    };
+  }
+
+  if ("title" in body || "detail" in body || "status" in body) {
+    if (isRecord(body.errors)) {
+      addDictionary(body.errors, errors, general);
+    }
+    return {
+      message: general[0] || asString(body.detail) || asString(body.title),
+      code: asString(body.type),
+      errors,
+    };
+  }
+
+  if (isDictionary(body)) {
+    addDictionary(body, errors, general);
+  }
+  return { message: general[0], errors };
+}
+
+// Turn a failed response into the matching ODataHttpError subclass. The body is read as text, so empty and
+// non-JSON bodies are handled too; every message of every field is kept
+export async function parseErrorResponse(
+  response: Response,
+  { method = "GET", url = response.url }: { method?: string; url?: string } = {}
+): Promise<ODataHttpError> {
+  const text = await response.text().catch(() => "");
+  let body: unknown = undefined;
+  if (text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = text;
+    }
+  }
+
+  const { message, code, errors } = parseErrorBody(body);
+  const details: HttpErrorDetails = { url, method, status: response.status, code, body };
+  const summary = message || `HTTP error! status: ${response.status}`;
+
+  if (response.status === 404) {
+    return new ODataNotFoundError(summary, details);
+  }
+  if (response.status === 412) {
+    return new ODataConcurrencyError(message || "The entity was changed by someone else since it was read", details);
+  }
+  if (Object.keys(errors).length > 0) {
+    return new ODataValidationError(message || "One or more validation errors occurred.", errors, details);
+  }
+  return new ODataHttpError(summary, details);
+}
+
+// Whether err comes from an aborted request, which callers usually ignore
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+// fetch that throws instead of returning a failed response: ODataNetworkError (ODataTimeoutError after a
+// transport timeout) when no response arrives and the parsed ODataHttpError for a non-2xx status. Aborts are
+// rethrown unchanged. send is the client's transport, the global fetch by default
+export async function fetchOData(url: string, init: RequestInit = {}, send: FetchLike = fetch): Promise<Response> {
+  const method = init.method || "GET";
+  let response: Response;
+  try {
+    response = await send(url, init);
+  } catch (err) {
+    if (isAbortError(err)) {
+      throw err;
+    }
+    if (err instanceof DOMException && err.name === "TimeoutError") {
+      throw new ODataTimeoutError("The request timed out", { url, method, cause: err });
+    }
+    throw new ODataNetworkError(err instanceof Error ? err.message : "Network request failed", {
+      url,
+      method,
+      cause: err,
+    });
+  }
+
+  if (!response.ok) {
+    throw await parseErrorResponse(response, { method, url });
+  }
+  return response;
+}
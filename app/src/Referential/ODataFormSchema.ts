@@ -0,0 +1,343 @@
+import { ODataQuery, formatEntityKey } from "./ODataQuery";
+import type { EntityKey } from "./ODataQuery";
+import { fetchODataPage, ODATA_MAX_TOP } from "./ODataClient";
+import type { ValidationRule } from "../Builder/core/FormValidation";
+import type { FieldConditions } from "../Builder/core/FormConditions";
+import { composeTransforms, transforms } from "../Builder/core/FormTransforms";
+import type { FieldTransforms } from "../Builder/core/FormTransforms";
+import type { ODataClient } from "./ODataClient";
+import { extractEntityMetadata, getElementType, getForeignKeyProperties } from "./ODataMetadata";
+import type {
+  EntityMetadata,
+  NavigationPropertyMetadata,
+  ODataModel,
+  PropertyMetadata,
+  ReferentialConstraintMetadata,
+} from "./ODataMetadata";
+
+export type FormSchema = Record<
+  string,
+  { type: string; props: Record<string, unknown>; rules?: ValidationRule[] } & FieldConditions & FieldTransforms
+>;
+
+// visibleWhen/disabledWhen/requiredWhen/computed by entity type name, then property name, e.g.
+// { OrderItem: { TotalPrice: { computed: "Quantity * UnitPrice - Discount" } } }
+export type EntityFieldConditions = Record<string, Record<string, FieldConditions>>;
+
+export interface LookupFieldConfig {
+  labelField?: string;
+  valueField?: string;
+  pageSize?: number;
+}
+
+// Editable child rows of a collection navigation property, e.g. Order.OrderItems
+export interface ChildCollectionSchema {
+  navigationProperty: string;
+  entityName: string;
+  schema: FormSchema;
+  initialValues: Record<string, unknown>;
+  // Child foreign key -> parent key, filled in by the server on deep insert or by the client on sequential creates
+  parentForeignKeys: ReferentialConstraintMetadata[];
+}
+
+export interface GeneratedFormSchema {
+  schema: FormSchema;
+  initialValues: Record<string, unknown>;
+  collections: Record<string, ChildCollectionSchema>;
+}
+
+interface FormSchemaOptions {
+  client: ODataClient;
+  baseUrl: string;
+  lookups?: Record<string, LookupFieldConfig>; // Keyed by foreign key property, e.g. "CategoryId"
+  conditions?: EntityFieldConditions;
+  exclude?: string[];
+}
+
+// Pick the first non-key string property of a lookup target as its display field
+function getDefaultLabelField(entity: EntityMetadata | null): string | undefined {
+  return entity?.properties.find((prop) => prop.type === "Edm.String" && !entity.keys.includes(prop.name))?.name;
+}
+
+// Utility functions for form generation - based on OData metadata
+export function getFieldType(property: PropertyMetadata): string {
+  // Use OData type from metadata to determine field type
+  switch (property.type) {
+    case "Edm.String":
+      // Check if it's a long text field based on maxLength
+      if (property.maxLength && property.maxLength > 255) {
+        return "textarea";
+      }
+      return "text";
+    case "Edm.Int32":
+    case "Edm.Int64":
+      return "number";
+    case "Edm.Decimal":
+    case "Edm.Double":
+      return "number";
+    case "Edm.Boolean":
+      return "checkbox";
+    case "Edm.DateTime":
+    case "Edm.DateTimeOffset":
+      return "date";
+    case "Edm.Guid":
+      return "text"; // GUID as text input
+    case "Edm.Binary":
+      return "file"; // Binary data as file input
+    default:
+      // For complex types or navigation properties, default to text
+      return "text";
+  }
+}
+
+export function getInitialValue(property: PropertyMetadata): unknown {
+  switch (property.type) {
+    case "Edm.String":
+      return "";
+    case "Edm.Int32":
+    case "Edm.Int64":
+      return 0;
+    case "Edm.Decimal":
+    case "Edm.Double":
+      return 0;
+    case "Edm.Boolean":
+      return false;
+    case "Edm.DateTime":
+    case "Edm.DateTimeOffset":
+      return "";
+    case "Edm.Guid":
+      return "";
+    case "Edm.Binary":
+      return null;
+    default:
+      return "";
+  }
+}
+
+// Conversions between what the inputs hold and the JSON the service expects for a property: numbers for numeric
+// types, ISO timestamps for dates, and null rather than "" for nullable properties
+export function getFieldTransforms(property: PropertyMetadata): FieldTransforms {
+  const fieldType = getFieldType(property);
+  return composeTransforms(
+    ...(fieldType === "number" ? [transforms.number] : []),
+    ...(fieldType === "date" ? [transforms.isoDate] : []),
+    ...(property.nullable && fieldType !== "checkbox" ? [transforms.nullable] : [])
+  );
+}
+
+// Value ranges of the Edm integer types; Int64 is left to the server since it exceeds Number's safe range
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  "Edm.Byte": [0, 255],
+  "Edm.SByte": [-128, 127],
+  "Edm.Int16": [-32768, 32767],
+  "Edm.Int32": [-2147483648, 2147483647],
+};
+
+// Client-side validation rules implied by a property's Edm type and facets
+export function getValidationRules(property: PropertyMetadata): ValidationRule[] {
+  const rules: ValidationRule[] = [];
+
+  if (!property.nullable && property.type !== "Edm.Boolean") {
+    rules.push({ type: "required" });
+  }
+  if (property.maxLength) {
+    rules.push({ type: "maxLength", value: property.maxLength });
+  }
+
+  if (property.type in INTEGER_RANGES || property.type === "Edm.Int64") {
+    rules.push({ type: "integer" });
+  }
+  if (property.type in INTEGER_RANGES) {
+    const [min, max] = INTEGER_RANGES[property.type];
+    rules.push({ type: "min", value: min }, { type: "max", value: max });
+  }
+
+  if (property.type === "Edm.Decimal") {
+    const scale = typeof property.scale === "number" ? property.scale : undefined;
+    if (property.precision !== undefined) {
+      // Precision counts all digits, so at most precision - scale of them may come before the decimal point
+      const integerDigits = property.precision - (scale || 0);
+      rules.push({
+        type: "pattern",
+        value: `^-?\\d{0,${integerDigits}}(\\.\\d*)?$`,
+        message: `{label} can have at most ${integerDigits} digits before the decimal point`,
+      });
+    }
+    if (scale !== undefined) {
+      rules.push({
+        type: "pattern",
+        value: scale === 0 ? "^-?\\d*$" : `^-?\\d*(\\.\\d{0,${scale}})?$`,
+        message: scale === 0 ? "{label} must be a whole number" : `{label} can have at most ${scale} decimal places`,
+      });
+    }
+  }
+
+  return rules;
+}
+
+// Find the foreign keys on the child entity that point back at the parent of a collection navigation property
+export function findParentForeignKeys(
+  model: ODataModel,
+  parent: EntityMetadata,
+  collection: NavigationPropertyMetadata
+): ReferentialConstraintMetadata[] {
+  const child = extractEntityMetadata(model, getElementType(collection.type));
+  const backReference = child?.navigationProperties.find(
+    (navProp) =>
+      !navProp.isCollection &&
+      (navProp.name === collection.partner || getElementType(navProp.type) === parent.fullName) &&
+      navProp.referentialConstraints.length > 0
+  );
+  return backReference?.referentialConstraints || [];
+}
+
+// Generate a form schema and initial values for an entity type from its metadata
+export function generateFormSchema(
+  model: ODataModel,
+  entityName: string,
+  { client, baseUrl, lookups, conditions, exclude = [] }: FormSchemaOptions
+): GeneratedFormSchema | null {
+  const entityMetadata = extractEntityMetadata(model, entityName);
+  if (!entityMetadata) {
+    return null;
+  }
+
+  const schema: FormSchema = {};
+  const initialValues: Record<string, unknown> = {};
+  const collections: Record<string, ChildCollectionSchema> = {};
+
+  // Foreign keys backed by a single-property ReferentialConstraint are rendered as lookups below
+  const lookupForeignKeys = Object.entries(getForeignKeyProperties(entityMetadata))
+    .filter(([, navProp]) => navProp.referentialConstraints.length === 1)
+    .map(([propertyName]) => propertyName);
+
+  // Handle regular properties, hiding only the declared key columns
+  entityMetadata.properties
+    .filter((prop) => {
+      return (
+        !prop.name.startsWith("__") &&
+        !entityMetadata.keys.includes(prop.name) &&
+        !lookupForeignKeys.includes(prop.name)
+      );
+    })
+    .forEach((prop) => {
+      const fieldType = getFieldType(prop);
+      initialValues[prop.name] = getInitialValue(prop);
+
+      schema[prop.name] = {
+        type: fieldType,
+        props: {
+          label: prop.displayName || prop.name,
+          helpText: prop.description,
+          placeholder: prop.placeholder || `Enter ${prop.name.toLowerCase()}`,
+          required: !prop.nullable,
+          ...(prop.maxLength && { maxLength: prop.maxLength }),
+          ...(prop.type === "Edm.Decimal" || prop.type === "Edm.Double" ? { step: "0.01" } : {}),
+          ...(fieldType === "date" && { type: "date" }),
+        },
+        rules: getValidationRules(prop),
+        ...getFieldTransforms(prop),
+      };
+    });
+
+  // Handle navigation properties - foreign keys become lookups that query the target set on demand
+  for (const navProp of entityMetadata.navigationProperties) {
+    if (navProp.isCollection) continue;
+
+    // The ReferentialConstraint names the foreign key field (e.g. "CategoryId" -> Category "Id")
+    const constraint = navProp.referentialConstraints.length === 1 ? navProp.referentialConstraints[0] : null;
+    if (!constraint) {
+      console.warn(`No single-property ReferentialConstraint found for navigation property ${navProp.name}`);
+      continue;
+    }
+
+    const foreignKeyField = constraint.property;
+    const targetMetadata = extractEntityMetadata(model, getElementType(navProp.type));
+    // Resolve the target entity set through NavigationPropertyBinding
+    const targetUrl = `${baseUrl}/odata/${client.getNavigationPath(model, entityName, navProp)}`;
+    const lookupConfig = lookups?.[foreignKeyField] || {};
+    const valueField = lookupConfig.valueField || constraint.referencedProperty;
+    const labelField = lookupConfig.labelField || getDefaultLabelField(targetMetadata) || valueField;
+    const pageSize = Math.min(lookupConfig.pageSize || 20, ODATA_MAX_TOP);
+
+    initialValues[foreignKeyField] = "";
+    schema[foreignKeyField] = {
+      type: "lookup",
+      props: {
+        label: navProp.name,
+        helpText: `Select ${navProp.name}`,
+        placeholder: `Search ${navProp.name}`,
+        required: !navProp.nullable,
+        labelField,
+        valueField,
+        search: async (term: string, signal: AbortSignal) => {
+          const query = new ODataQuery(targetMetadata).top(pageSize).orderBy(labelField);
+          if (term.trim()) {
+            query.filter((f) => f.contains(labelField, term.trim()));
+          }
+          const page = await fetchODataPage(`${targetUrl}?${query.toQueryString()}`, signal, client.send);
+          return page.items;
+        },
+        fetchByValue: async (value: unknown, signal: AbortSignal) => {
+          // Look the record up by key when the value is the target's key, otherwise filter on it
+          if (targetMetadata && targetMetadata.keys.length === 1 && targetMetadata.keys[0] === valueField) {
+            const response = await client.send(`${targetUrl}(${formatEntityKey(targetMetadata, value as EntityKey)})`, {
+              signal,
+            });
+            return response.ok ? await response.json() : null;
+          }
+          const query = new ODataQuery(targetMetadata).filter((f) => f.eq(valueField, value)).top(1);
+          const page = await fetchODataPage(`${targetUrl}?${query.toQueryString()}`, signal, client.send);
+          return page.items[0] || null;
+        },
+      },
+      // An optional reference that was cleared is sent as null
+      ...(navProp.nullable && transforms.nullable),
+    };
+  }
+
+  // Collection navigation properties become child schemas, without the foreign key back to this entity
+  for (const navProp of entityMetadata.navigationProperties) {
+    if (!navProp.isCollection || exclude.includes(navProp.name)) continue;
+
+    const childEntityName = getElementType(navProp.type);
+    const parentForeignKeys = findParentForeignKeys(model, entityMetadata, navProp);
+    const childSchema = generateFormSchema(model, childEntityName, {
+      client,
+      baseUrl,
+      lookups,
+      conditions,
+      // Nested collections are not supported, and the parent reference is implied by the row's position
+      exclude: [
+        ...parentForeignKeys.map((constraint) => constraint.property),
+        ...(
+          extractEntityMetadata(model, childEntityName)?.navigationProperties.filter((nav) => nav.isCollection) || []
+        ).map((nav) => nav.name),
+      ],
+    });
+    if (childSchema) {
+      collections[navProp.name] = {
+        navigationProperty: navProp.name,
+        entityName: childEntityName,
+        schema: childSchema.schema,
+        initialValues: childSchema.initialValues,
+        parentForeignKeys,
+      };
+    }
+  }
+
+  // Attach the configured conditions of this entity type's fields
+  Object.entries(conditions?.[entityMetadata.name] || {}).forEach(([fieldName, fieldConditions]) => {
+    if (schema[fieldName]) {
+      schema[fieldName] = { ...schema[fieldName], ...fieldConditions };
+    }
+  });
+
+  // Drop explicitly excluded fields
+  exclude.forEach((fieldName) => {
+    delete schema[fieldName];
+    delete initialValues[fieldName];
+  });
+
+  return { schema, initialValues, collections };
+}
@@ -0,0 +1,288 @@
+import { XMLParser } from "fast-xml-parser";
+
+export interface EntityMetadata {
+  name: string;
+  fullName: string;
+  baseType?: string;
+  keys: string[];
+  properties: PropertyMetadata[];
+  navigationProperties: NavigationPropertyMetadata[];
+}
+
+export interface PropertyMetadata {
+  name: string;
+  type: string;
+  nullable: boolean;
+  maxLength?: number;
+  precision?: number;
+  scale?: number | "variable";
+  displayName?: string;
+  description?: string;
+  placeholder?: string;
+}
+
+export interface NavigationPropertyMetadata {
+  name: string;
+  type: string;
+  nullable: boolean;
+  isCollection: boolean;
+  partner?: string;
+  // Foreign key property on this entity -> key property on the target entity
+  referentialConstraints: ReferentialConstraintMetadata[];
+}
+
+export interface ReferentialConstraintMetadata {
+  property: string;
+  referencedProperty: string;
+}
+
+export interface ComplexTypeMetadata {
+  name: string;
+  fullName: string;
+  properties: PropertyMetadata[];
+}
+
+export interface EnumTypeMetadata {
+  name: string;
+  fullName: string;
+  isFlags: boolean;
+  members: Array<{ name: string; value: number }>;
+}
+
+export interface EntitySetMetadata {
+  name: string;
+  // Qualified name of the entity type, e.g. "Api.Models.Product"
+  entityType: string;
+  // Navigation property path -> target entity set name
+  navigationBindings: Record<string, string>;
+}
+
+// Normalized view of a service's $metadata document
+export interface ODataModel {
+  entityTypes: Record<string, EntityMetadata>;
+  complexTypes: Record<string, ComplexTypeMetadata>;
+  enumTypes: Record<string, EnumTypeMetadata>;
+  entitySets: Record<string, EntitySetMetadata>;
+}
+
+// EDMX elements as fast-xml-parser returns them: attributes as string properties, a repeated child element as an
+// array and a single one as the element itself
+type OneOrMany<T> = T | T[] | undefined;
+
+interface EdmxProperty {
+  Name: string;
+  Type: string;
+  [attribute: string]: string | undefined;
+}
+
+interface EdmxNavigationProperty {
+  Name: string;
+  Type: string;
+  Nullable?: string;
+  Partner?: string;
+  ReferentialConstraint?: OneOrMany<{ Property: string; ReferencedProperty: string }>;
+}
+
+interface EdmxSchema {
+  Namespace: string;
+  EntityType?: OneOrMany<{
+    Name: string;
+    BaseType?: string;
+    Key?: { PropertyRef: OneOrMany<{ Name: string }> };
+    Property?: OneOrMany<EdmxProperty>;
+    NavigationProperty?: OneOrMany<EdmxNavigationProperty>;
+  }>;
+  ComplexType?: OneOrMany<{ Name: string; Property?: OneOrMany<EdmxProperty> }>;
+  EnumType?: OneOrMany<{ Name: string; IsFlags?: string; Member?: OneOrMany<{ Name: string; Value?: string }> }>;
+  EntityContainer?: OneOrMany<{
+    EntitySet?: OneOrMany<{
+      Name: string;
+      EntityType: string;
+      NavigationPropertyBinding?: OneOrMany<{ Path: string; Target: string }>;
+    }>;
+  }>;
+}
+
+function asArray<T>(value: OneOrMany<T>): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function parseProperty(prop: EdmxProperty): PropertyMetadata {
+  // Extract display attributes from OData annotations
+  const displayName =
+    prop["@_sap:label"] ||
+    prop["@_sap:display-format"] ||
+    prop["@_sap:quickinfo"] ||
+    prop["@_microsoft:displayName"] ||
+    prop["@_microsoft:label"] ||
+    prop["@_odata:displayName"] ||
+    prop["@_odata:label"];
+
+  const description =
+    prop["@_sap:quickinfo"] || prop["@_sap:label"] || prop["@_microsoft:description"] || prop["@_odata:description"];
+
+  const placeholder =
+    prop["@_sap:placeholder"] ||
+    prop["@_sap:display-format"] ||
+    prop["@_microsoft:placeholder"] ||
+    prop["@_odata:placeholder"];
+
+  return {
+    name: prop.Name,
+    type: prop.Type,
+    nullable: prop.Nullable !== "false", // Edm default is nullable
+    maxLength: prop.MaxLength ? parseInt(prop.MaxLength) : undefined,
+    precision: prop.Precision ? parseInt(prop.Precision) : undefined,
+    scale:
+      prop.Scale === "variable" || prop.Scale === "Variable"
+        ? "variable"
+        : prop.Scale
+          ? parseInt(prop.Scale)
+          : undefined,
+    displayName,
+    description,
+    placeholder,
+  };
+}
+
+function parseNavigationProperty(navProp: EdmxNavigationProperty): NavigationPropertyMetadata {
+  return {
+    name: navProp.Name,
+    type: navProp.Type,
+    nullable: navProp.Nullable !== "false",
+    isCollection: navProp.Type.startsWith("Collection("),
+    partner: navProp.Partner,
+    referentialConstraints: asArray(navProp.ReferentialConstraint).map((constraint) => ({
+      property: constraint.Property,
+      referencedProperty: constraint.ReferencedProperty,
+    })),
+  };
+}
+
+// Parse the EDMX returned by $metadata into a normalized model, covering every schema in the document
+export function parseMetadata(xmlText: string): ODataModel {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "",
+  });
+  const parsed = parser.parse(xmlText);
+  const schemas = asArray<EdmxSchema>(parsed["edmx:Edmx"]?.["edmx:DataServices"]?.["Schema"]);
+
+  const model: ODataModel = { entityTypes: {}, complexTypes: {}, enumTypes: {}, entitySets: {} };
+
+  schemas.forEach((schema) => {
+    const namespace = schema.Namespace;
+
+    asArray(schema.EntityType).forEach((entityType) => {
+      const fullName = `${namespace}.${entityType.Name}`;
+      model.entityTypes[fullName] = {
+        name: entityType.Name,
+        fullName,
+        baseType: entityType.BaseType,
+        keys: asArray(entityType.Key?.PropertyRef).map((ref) => ref.Name),
+        properties: asArray(entityType.Property).map(parseProperty),
+        navigationProperties: asArray(entityType.NavigationProperty).map(parseNavigationProperty),
+      };
+    });
+
+    asArray(schema.ComplexType).forEach((complexType) => {
+      const fullName = `${namespace}.${complexType.Name}`;
+      model.complexTypes[fullName] = {
+        name: complexType.Name,
+        fullName,
+        properties: asArray(complexType.Property).map(parseProperty),
+      };
+    });
+
+    asArray(schema.EnumType).forEach((enumType) => {
+      const fullName = `${namespace}.${enumType.Name}`;
+      model.enumTypes[fullName] = {
+        name: enumType.Name,
+        fullName,
+        isFlags: enumType.IsFlags === "true",
+        // Members without an explicit Value are numbered by position
+        members: asArray(enumType.Member).map((member, index) => ({
+          name: member.Name,
+          value: member.Value !== undefined ? parseInt(member.Value) : index,
+        })),
+      };
+    });
+
+    asArray(schema.EntityContainer).forEach((container) => {
+      asArray(container.EntitySet).forEach((entitySet) => {
+        const navigationBindings: Record<string, string> = {};
+        asArray(entitySet.NavigationPropertyBinding).forEach((binding) => {
+          navigationBindings[binding.Path] = binding.Target;
+        });
+        model.entitySets[entitySet.Name] = {
+          name: entitySet.Name,
+          entityType: entitySet.EntityType,
+          navigationBindings,
+        };
+      });
+    });
+  });
+
+  // Entity types without a declared key inherit it from their base type
+  const resolveKeys = (entity: EntityMetadata | undefined): string[] => {
+    if (!entity) return [];
+    if (entity.keys.length > 0 || !entity.baseType) return entity.keys;
+    return resolveKeys(model.entityTypes[entity.baseType]);
+  };
+  Object.values(model.entityTypes).forEach((entity) => {
+    entity.keys = resolveKeys(entity);
+  });
+
+  return model;
+}
+
+// Find an entity type by its simple or qualified name
+export function extractEntityMetadata(model: ODataModel, targetEntityName: string): EntityMetadata | null {
+  return (
+    model.entityTypes[targetEntityName] ||
+    Object.values(model.entityTypes).find((entity) => entity.name === targetEntityName) ||
+    null
+  );
+}
+
+// Strip "Collection(...)" from a navigation property type
+export function getElementType(type: string): string {
+  const match = /^Collection\((.+)\)$/.exec(type);
+  return match ? match[1] : type;
+}
+
+// Find the entity set that exposes an entity type, by its simple or qualified name
+export function findEntitySet(model: ODataModel, entityTypeName: string): EntitySetMetadata | null {
+  const entityType = extractEntityMetadata(model, entityTypeName);
+  const qualifiedName = entityType?.fullName || entityTypeName;
+  return Object.values(model.entitySets).find((entitySet) => entitySet.entityType === qualifiedName) || null;
+}
+
+// Find the entity set a navigation property points to, preferring the container's NavigationPropertyBinding
+export function findNavigationTarget(
+  model: ODataModel,
+  sourceEntitySet: EntitySetMetadata | null,
+  navigationProperty: NavigationPropertyMetadata
+): EntitySetMetadata | null {
+  const target = sourceEntitySet?.navigationBindings[navigationProperty.name];
+  if (target) {
+    // Targets may be qualified with the container, e.g. "Default.Container/Products"
+    const targetName = target.substring(target.lastIndexOf("/") + 1);
+    if (model.entitySets[targetName]) {
+      return model.entitySets[targetName];
+    }
+  }
+  return findEntitySet(model, getElementType(navigationProperty.type));
+}
+
+// Foreign key properties of an entity, keyed by property name, pointing at the navigation property they belong to
+export function getForeignKeyProperties(entity: EntityMetadata): Record<string, NavigationPropertyMetadata> {
+  const foreignKeys: Record<string, NavigationPropertyMetadata> = {};
+  entity.navigationProperties.forEach((navProp) => {
+    navProp.referentialConstraints.forEach((constraint) => {
+      foreignKeys[constraint.property] = navProp;
+    });
+  });
+  return foreignKeys;
+}
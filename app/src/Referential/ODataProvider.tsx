@@ -0,0 +1,29 @@
+import * as React from "react";
+import { ODataClient, ODataContext } from "./ODataClient";
+import type { EntitySetPathOverrides } from "./ODataClient";
+import type { TransportOptions } from "./ODataTransport";
+
+interface ODataProviderProps {
+  baseUrl: string;
+  persistMetadata?: boolean;
+  entitySetPaths?: EntitySetPathOverrides;
+  // Keep it stable (a module constant or memoized): a new object creates a new client
+  transport?: TransportOptions;
+  children: React.ReactNode;
+}
+
+// Shares one ODataClient (and therefore one $metadata download) with every OData component below it
+export default function ODataProvider({
+  baseUrl,
+  persistMetadata,
+  entitySetPaths,
+  transport,
+  children,
+}: ODataProviderProps) {
+  const client = React.useMemo(
+    () => new ODataClient({ baseUrl, persistMetadata, entitySetPaths, transport }),
+    [baseUrl, persistMetadata, entitySetPaths, transport]
+  );
+
+  return <ODataContext.Provider value={client}>{children}</ODataContext.Provider>;
+}
@@ -0,0 +1,313 @@
+import { extractEntityMetadata, getElementType } from "./ODataMetadata";
+import type { EntityMetadata, ODataModel, PropertyMetadata } from "./ODataMetadata";
+
+type FieldName<T> = keyof T & string;
+type ComparisonOperator = "eq" | "ne" | "gt" | "ge" | "lt" | "le";
+type StringFunction = "contains" | "startswith" | "endswith";
+
+// Filter expressions are kept as a tree and only serialized once the property types are known
+export type FilterExpression =
+  | { kind: "compare"; operator: ComparisonOperator; field: string; value: unknown }
+  | { kind: "function"; name: StringFunction; field: string; value: string }
+  | { kind: "in"; field: string; values: unknown[] }
+  | { kind: "and" | "or"; operands: FilterExpression[] }
+  | { kind: "not"; operand: FilterExpression }
+  | { kind: "raw"; expression: string };
+
+export interface FilterBuilder<T> {
+  eq: (field: FieldName<T>, value: unknown) => FilterExpression;
+  ne: (field: FieldName<T>, value: unknown) => FilterExpression;
+  gt: (field: FieldName<T>, value: unknown) => FilterExpression;
+  ge: (field: FieldName<T>, value: unknown) => FilterExpression;
+  lt: (field: FieldName<T>, value: unknown) => FilterExpression;
+  le: (field: FieldName<T>, value: unknown) => FilterExpression;
+  contains: (field: FieldName<T>, value: string) => FilterExpression;
+  startswith: (field: FieldName<T>, value: string) => FilterExpression;
+  endswith: (field: FieldName<T>, value: string) => FilterExpression;
+  in: (field: FieldName<T>, values: unknown[]) => FilterExpression;
+  and: (...operands: FilterExpression[]) => FilterExpression;
+  or: (...operands: FilterExpression[]) => FilterExpression;
+  not: (operand: FilterExpression) => FilterExpression;
+  raw: (expression: string) => FilterExpression;
+}
+
+export function createFilterBuilder<T>(): FilterBuilder<T> {
+  const compare = (operator: ComparisonOperator) => (field: FieldName<T>, value: unknown) =>
+    ({ kind: "compare", operator, field, value }) as FilterExpression;
+  const stringFunction = (name: StringFunction) => (field: FieldName<T>, value: string) =>
+    ({ kind: "function", name, field, value }) as FilterExpression;
+
+  return {
+    eq: compare("eq"),
+    ne: compare("ne"),
+    gt: compare("gt"),
+    ge: compare("ge"),
+    lt: compare("lt"),
+    le: compare("le"),
+    contains: stringFunction("contains"),
+    startswith: stringFunction("startswith"),
+    endswith: stringFunction("endswith"),
+    in: (field, values) => ({ kind: "in", field, values }),
+    and: (...operands) => ({ kind: "and", operands }),
+    or: (...operands) => ({ kind: "or", operands }),
+    not: (operand) => ({ kind: "not", operand }),
+    raw: (expression) => ({ kind: "raw", expression }),
+  };
+}
+
+// A guid in its canonical 8-4-4-4-12 form, the only one an Edm.Guid literal accepts
+export const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+// A Date, or a string or timestamp JavaScript can parse, as a valid Date
+function toValidDate(value: unknown): Date {
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date literal: ${value instanceof Date ? "Invalid Date" : String(value)}`);
+  }
+  return date;
+}
+
+function formatDateOnly(value: unknown): string {
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value)) return value.substring(0, 10);
+  const date = toValidDate(value);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+}
+
+function formatNumber(value: unknown): string {
+  const number = typeof value === "number" ? value : Number(value);
+  if (!isFinite(number)) {
+    throw new Error(`Invalid numeric literal: ${value}`);
+  }
+  return String(number);
+}
+
+// Format a JavaScript value as an OData URL literal, following the Edm type when it is known. Values given for
+// a date type are expected to be a Date or a date string; invalid dates, guids and numbers throw
+export function formatLiteral(value: unknown, edmType?: string): string {
+  if (value === null || value === undefined) return "null";
+
+  switch (edmType) {
+    case "Edm.String":
+      return `'${String(value).replace(/'/g, "''")}'`;
+    case "Edm.Guid":
+      // Guids are unquoted in OData v4
+      if (!GUID_PATTERN.test(String(value))) {
+        throw new Error(`Invalid Guid literal: ${value}`);
+      }
+      return String(value);
+    case "Edm.DateTimeOffset":
+    case "Edm.DateTime":
+      return toValidDate(value).toISOString();
+    case "Edm.Date":
+      return formatDateOnly(value);
+    case "Edm.Int16":
+    case "Edm.Int32":
+    case "Edm.Int64":
+    case "Edm.Byte":
+    case "Edm.Decimal":
+    case "Edm.Double":
+    case "Edm.Single":
+      return formatNumber(value);
+    case "Edm.Boolean":
+      return value === true || value === "true" ? "true" : "false";
+    case "Edm.Duration":
+      return `duration'${value}'`;
+  }
+
+  // Unknown type, fall back to the JavaScript type of the value
+  if (value instanceof Date) return toValidDate(value).toISOString();
+  if (typeof value === "number") return formatNumber(value);
+  if (typeof value === "boolean") return value ? "true" : "false";
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+// A single key value, or the values of a composite key by property name
+export type EntityKey = number | string | Record<string, unknown>;
+
+// Format the (URL encoded) key segment inside Entity(...): "1", "'abc'", "OrderId=1,ProductId=2"
+export function formatEntityKey(entity: EntityMetadata | null | undefined, key: EntityKey): string {
+  const typeOf = (name: string) => entity?.properties.find((prop) => prop.name === name)?.type;
+  const literal = (value: unknown, type?: string) => encodeURIComponent(formatLiteral(value, type));
+
+  if (typeof key === "object" && key !== null) {
+    const keyNames = entity && entity.keys.length > 0 ? entity.keys : Object.keys(key);
+    if (keyNames.length === 1) {
+      return literal(key[keyNames[0]], typeOf(keyNames[0]));
+    }
+    return keyNames.map((name) => `${name}=${literal(key[name], typeOf(name))}`).join(",");
+  }
+
+  if (entity && entity.keys.length > 1) {
+    throw new Error(`${entity.name} has a composite key (${entity.keys.join(", ")}), pass an object with each part`);
+  }
+  return literal(key, entity?.keys[0] ? typeOf(entity.keys[0]) : undefined);
+}
+
+// Read the key of a loaded entity, as accepted by formatEntityKey
+export function getEntityKey(entity: EntityMetadata, record: object): EntityKey {
+  const values = record as Record<string, unknown>;
+  if (entity.keys.length === 1) {
+    return values[entity.keys[0]] as number | string;
+  }
+  return Object.fromEntries(entity.keys.map((name) => [name, values[name]]));
+}
+
+function serializeFilter(expression: FilterExpression, properties: PropertyMetadata[]): string {
+  const typeOf = (field: string) => properties.find((prop) => prop.name === field)?.type;
+
+  switch (expression.kind) {
+    case "compare":
+      return `${expression.field} ${expression.operator} ${formatLiteral(expression.value, typeOf(expression.field))}`;
+    case "function":
+      return `${expression.name}(${expression.field},${formatLiteral(expression.value, "Edm.String")})`;
+    case "in": {
+      const type = typeOf(expression.field);
+      return `${expression.field} in (${expression.values.map((value) => formatLiteral(value, type)).join(",")})`;
+    }
+    case "and":
+    case "or":
+      if (expression.operands.length === 1) return serializeFilter(expression.operands[0], properties);
+      return expression.operands
+        .map((operand) => `(${serializeFilter(operand, properties)})`)
+        .join(` ${expression.kind} `);
+    case "not":
+      return `not (${serializeFilter(expression.operand, properties)})`;
+    case "raw":
+      return expression.expression;
+  }
+}
+
+interface ExpandOption {
+  navigationProperty: string;
+  query?: ODataQuery;
+}
+
+// Fluent builder for OData system query options
+export class ODataQuery<T = Record<string, unknown>> {
+  private filters: FilterExpression[] = [];
+  private selectFields: string[] = [];
+  private expands: ExpandOption[] = [];
+  private orderByClauses: string[] = [];
+  private topValue?: number;
+  private skipValue?: number;
+  private countValue?: boolean;
+  private searchValue?: string;
+  private metadata?: EntityMetadata | null;
+
+  constructor(metadata?: EntityMetadata | null) {
+    this.metadata = metadata;
+  }
+
+  // Attach entity metadata so literals are formatted according to their Edm type
+  withMetadata(metadata: EntityMetadata | null | undefined): this {
+    this.metadata = metadata;
+    return this;
+  }
+
+  // Multiple filter calls are combined with "and"
+  filter(expression: FilterExpression | ((f: FilterBuilder<T>) => FilterExpression)): this {
+    this.filters.push(typeof expression === "function" ? expression(createFilterBuilder<T>()) : expression);
+    return this;
+  }
+
+  select(...fields: FieldName<T>[]): this {
+    this.selectFields.push(...fields);
+    return this;
+  }
+
+  expand(navigationProperty: string, configure?: (query: ODataQuery) => ODataQuery): this {
+    this.expands.push({
+      navigationProperty,
+      query: configure ? configure(new ODataQuery()) : undefined,
+    });
+    return this;
+  }
+
+  orderBy(field: FieldName<T>, direction: "asc" | "desc" = "asc"): this {
+    this.orderByClauses.push(`${field} ${direction}`);
+    return this;
+  }
+
+  top(value: number): this {
+    this.topValue = value;
+    return this;
+  }
+
+  skip(value: number): this {
+    this.skipValue = value;
+    return this;
+  }
+
+  count(value = true): this {
+    this.countValue = value;
+    return this;
+  }
+
+  search(term: string): this {
+    this.searchValue = term;
+    return this;
+  }
+
+  // Raw (unencoded) option pairs, used both for the URL and for nested $expand options. With the model, the
+  // options of an expanded navigation property are formatted against its target entity type
+  private toOptions(fallbackMetadata?: EntityMetadata | null, model?: ODataModel | null): Array<[string, string]> {
+    const metadata = this.metadata || fallbackMetadata;
+    const properties = metadata?.properties || [];
+    const targetOf = (navigationProperty: string) => {
+      const navProp = metadata?.navigationProperties.find((prop) => prop.name === navigationProperty);
+      return model && navProp ? extractEntityMetadata(model, getElementType(navProp.type)) : null;
+    };
+    const options: Array<[string, string]> = [];
+
+    if (this.filters.length > 0) {
+      const filter: FilterExpression =
+        this.filters.length === 1 ? this.filters[0] : { kind: "and", operands: this.filters };
+      options.push(["$filter", serializeFilter(filter, properties)]);
+    }
+    if (this.selectFields.length > 0) {
+      options.push(["$select", this.selectFields.join(",")]);
+    }
+    if (this.expands.length > 0) {
+      const expand = this.expands
+        .map(({ navigationProperty, query }) => {
+          const nested = query?.toOptions(targetOf(navigationProperty), model) || [];
+          if (nested.length === 0) return navigationProperty;
+          return `${navigationProperty}(${nested.map(([key, value]) => `${key}=${value}`).join(";")})`;
+        })
+        .join(",");
+      options.push(["$expand", expand]);
+    }
+    if (this.orderByClauses.length > 0) {
+      options.push(["$orderby", this.orderByClauses.join(",")]);
+    }
+    if (this.topValue !== undefined) {
+      options.push(["$top", String(this.topValue)]);
+    }
+    if (this.skipValue !== undefined) {
+      options.push(["$skip", String(this.skipValue)]);
+    }
+    if (this.countValue !== undefined) {
+      options.push(["$count", String(this.countValue)]);
+    }
+    if (this.searchValue !== undefined) {
+      options.push(["$search", this.searchValue]);
+    }
+    return options;
+  }
+
+  // Serialize to an encoded query string (without the leading "?"); the model types the literals of nested
+  // $expand options, which otherwise fall back to the JavaScript type of their values
+  toQueryString(fallbackMetadata?: EntityMetadata | null, model?: ODataModel | null): string {
+    return this.toOptions(fallbackMetadata, model)
+      .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+      .join("&");
+  }
+
+  toString(): string {
+    return this.toQueryString();
+  }
+}
@@ -0,0 +1,245 @@
+import { useEffect, useMemo, useState } from "react";
+import { useODataCRUD, getFieldType, isAbortError, ODATA_MAX_TOP } from "./useODataCRUD";
+import type { PropertyMetadata } from "./ODataMetadata";
+import { GUID_PATTERN, ODataQuery, createFilterBuilder, getEntityKey } from "./ODataQuery";
+import type { FilterExpression } from "./ODataQuery";
+
+interface ODataTableProps {
+  baseUrl: string;
+  entityName: string;
+  pageSize?: number;
+  // Restrict and order the visible columns, defaults to every scalar property
+  columns?: string[];
+}
+
+interface SortState {
+  field: string;
+  direction: "asc" | "desc";
+}
+
+type FilterType = "text" | "guid" | "number" | "checkbox" | "date";
+
+// The filter a column offers, or null when its type has none: contains() only applies to strings, so binary,
+// complex and enum columns are not filterable from a text box
+function getFilterType(property: PropertyMetadata): FilterType | null {
+  if (property.type === "Edm.String") return "text";
+  if (property.type === "Edm.Guid") return "guid";
+  const fieldType = getFieldType(property);
+  return fieldType === "number" || fieldType === "checkbox" || fieldType === "date" ? fieldType : null;
+}
+
+// Build a $filter expression for one column from the raw filter input value
+function buildFilterExpression(property: PropertyMetadata, value: string): FilterExpression | null {
+  const trimmed = value.trim();
+  if (trimmed === "") return null;
+
+  const f = createFilterBuilder<Record<string, unknown>>();
+  switch (getFilterType(property)) {
+    case "number":
+      return isNaN(Number(trimmed)) ? null : f.eq(property.name, Number(trimmed));
+    case "checkbox":
+      return trimmed === "true" || trimmed === "false" ? f.eq(property.name, trimmed === "true") : null;
+    case "date": {
+      // Match the whole day rather than the exact midnight timestamp
+      const start = new Date(`${trimmed}T00:00:00Z`);
+      if (isNaN(start.getTime())) return null;
+      const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+      return f.and(f.ge(property.name, start), f.lt(property.name, end));
+    }
+    case "guid":
+      // Only a whole guid is a valid literal; nothing is sent while it is being typed
+      return GUID_PATTERN.test(trimmed) ? f.eq(property.name, trimmed) : null;
+    case "text":
+      return f.contains(property.name, trimmed);
+    default:
+      return null;
+  }
+}
+
+function formatCellValue(property: PropertyMetadata, value: unknown): string {
+  if (value === null || value === undefined) return "";
+  switch (getFieldType(property)) {
+    case "checkbox":
+      return value ? "Yes" : "No";
+    case "date":
+      return typeof value === "string" ? value.substring(0, 10) : String(value);
+    default:
+      return String(value);
+  }
+}
+
+export default function ODataTable({ baseUrl, entityName, pageSize = 20, columns }: ODataTableProps) {
+  const [rows, setRows] = useState<Record<string, unknown>[]>([]);
+  const [page, setPage] = useState(0);
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [totalCount, setTotalCount] = useState<number | undefined>(undefined);
+
+  const { getPage, entityMetadata, status } = useODataCRUD<Record<string, unknown>>({
+    baseUrl,
+    entityName,
+  });
+  const { loading, error } = status.getPage;
+
+  const top = Math.min(Math.max(pageSize, 1), ODATA_MAX_TOP);
+
+  // Derive the visible columns from the entity's scalar properties
+  const visibleProperties = useMemo(() => {
+    if (!entityMetadata) return [];
+    const properties = entityMetadata.properties.filter((prop) => !prop.name.startsWith("__"));
+    if (!columns) return properties;
+    return columns
+      .map((name) => properties.find((prop) => prop.name === name))
+      .filter((prop): prop is PropertyMetadata => !!prop);
+  }, [entityMetadata, columns]);
+
+  // Build the query for the current paging, sorting and filtering state
+  const query = useMemo(() => {
+    const builder = new ODataQuery(entityMetadata)
+      .top(top)
+      .skip(page * top)
+      .count();
+    if (sort) {
+      builder.orderBy(sort.field, sort.direction);
+    }
+    const filterExpressions = visibleProperties
+      .map((prop) => buildFilterExpression(prop, filters[prop.name] || ""))
+      .filter((expression): expression is FilterExpression => !!expression);
+    if (filterExpressions.length > 0) {
+      builder.filter((f) => f.and(...filterExpressions));
+    }
+    return builder;
+  }, [entityMetadata, top, page, sort, filters, visibleProperties]);
+
+  // Reload the current page whenever the query changes, debounced so typing in a filter does not spam the server
+  useEffect(() => {
+    if (!entityMetadata) return;
+
+    // Aborting the previous request keeps a slow response from replacing the rows of a newer query
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      getPage(query, { signal: controller.signal })
+        .then((result) => {
+          setRows(result.items);
+          setTotalCount(result.totalCount);
+        })
+        .catch((err) => {
+          if (isAbortError(err)) return;
+          console.error(`Error loading ${entityName} rows:`, err);
+        });
+    }, 300);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [getPage, query, entityMetadata, entityName]);
+
+  const toggleSort = (field: string) => {
+    setSort((previous) => {
+      if (!previous || previous.field !== field) return { field, direction: "asc" };
+      if (previous.direction === "asc") return { field, direction: "desc" };
+      return null;
+    });
+    setPage(0);
+  };
+
+  const setFilter = (field: string, value: string) => {
+    setFilters((previous) => ({ ...previous, [field]: value }));
+    setPage(0);
+  };
+
+  if (!entityMetadata) {
+    return <div>Loading table configuration for {entityName}...</div>;
+  }
+
+  // Fall back to "is the page full" when the server did not return @odata.count
+  const pageCount = totalCount !== undefined ? Math.max(Math.ceil(totalCount / top), 1) : undefined;
+  const hasNextPage = pageCount !== undefined ? page + 1 < pageCount : rows.length === top;
+
+  const cellStyle = { padding: "8px", borderBottom: "1px solid #ddd", textAlign: "left" as const };
+
+  return (
+    <div style={{ padding: "20px" }}>
+      <table style={{ width: "100%", borderCollapse: "collapse", backgroundColor: "#fff" }}>
+        <thead>
+          <tr>
+            {visibleProperties.map((prop) => (
+              <th
+                key={prop.name}
+                onClick={() => toggleSort(prop.name)}
+                style={{ ...cellStyle, cursor: "pointer", userSelect: "none" }}
+              >
+                {prop.displayName || prop.name}
+                {sort?.field === prop.name && (sort.direction === "asc" ? " ▲" : " ▼")}
+              </th>
+            ))}
+          </tr>
+          <tr>
+            {visibleProperties.map((prop) => {
+              const filterType = getFilterType(prop);
+              const value = filters[prop.name] || "";
+              return (
+                <th key={prop.name} style={cellStyle}>
+                  {!filterType ? null : filterType === "checkbox" ? (
+                    <select
+                      value={value}
+                      onChange={(event) => setFilter(prop.name, event.target.value)}
+                      style={{ width: "100%" }}
+                    >
+                      <option value="">Any</option>
+                      <option value="true">Yes</option>
+                      <option value="false">No</option>
+                    </select>
+                  ) : (
+                    <input
+                      type={filterType === "text" || filterType === "guid" ? "text" : filterType}
+                      value={value}
+                      placeholder={filterType === "guid" ? "Exact ID" : "Filter"}
+                      onChange={(event) => setFilter(prop.name, event.target.value)}
+                      style={{ width: "100%", boxSizing: "border-box" }}
+                    />
+                  )}
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={entityMetadata.keys.length > 0 ? JSON.stringify(getEntityKey(entityMetadata, row)) : index}>
+              {visibleProperties.map((prop) => (
+                <td key={prop.name} style={cellStyle}>
+                  {formatCellValue(prop, row[prop.name])}
+                </td>
+              ))}
+            </tr>
+          ))}
+          {rows.length === 0 && !loading && (
+            <tr>
+              <td colSpan={visibleProperties.length} style={{ ...cellStyle, color: "#666" }}>
+                No {entityName} records found
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      {/* Paging */}
+      <div style={{ marginTop: "10px", display: "flex", gap: "10px", alignItems: "center" }}>
+        <button type="button" onClick={() => setPage((p) => p - 1)} disabled={page === 0 || loading}>
+          Previous
+        </button>
+        <span>
+          Page {page + 1}
+          {pageCount !== undefined && ` of ${pageCount} (${totalCount} records)`}
+        </span>
+        <button type="button" onClick={() => setPage((p) => p + 1)} disabled={!hasNextPage || loading}>
+          Next
+        </button>
+        {loading && <span style={{ color: "#666" }}>Loading...</span>}
+        {error && <span style={{ color: "red" }}>{error}</span>}
+      </div>
+    </div>
+  );
+}
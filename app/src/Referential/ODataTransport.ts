@@ -0,0 +1,170 @@
+import { isAbortError } from "./ODataErrors";
+
+// fetch's signature: what a client sends its requests through, and what tests replace
+export type FetchLike = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+// May return a changed request, e.g. with a tenant header or a correlation ID; returning nothing keeps it
+export type RequestInterceptor = (request: Request) => Request | void | Promise<Request | void>;
+export type ResponseInterceptor = (response: Response, request: Request) => Response | void | Promise<Response | void>;
+
+export interface RetryOptions {
+  retries?: number; // Attempts after the first
+  baseDelay?: number; // Milliseconds before the first retry, doubled for each one after it
+  maxDelay?: number;
+  statuses?: number[]; // Responses worth another attempt
+}
+
+export interface TransportOptions {
+  // Sends the requests; the global fetch by default, a mock (see createMockFetch) in tests
+  fetch?: FetchLike;
+  // Bearer token for the Authorization header. Called with true after a 401, to refresh an expired token before
+  // the request is sent once more
+  getToken?: (forceRefresh: boolean) => string | null | undefined | Promise<string | null | undefined>;
+  onRequest?: RequestInterceptor[];
+  onResponse?: ResponseInterceptor[];
+  // Retries GET, HEAD, OPTIONS, PUT and DELETE after a network error or a transient status; false turns it off
+  retry?: RetryOptions | false;
+  // Milliseconds per attempt before it fails with ODataTimeoutError
+  timeout?: number;
+}
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  retries: 2,
+  baseDelay: 500,
+  maxDelay: 10000,
+  statuses: [408, 429, 502, 503, 504],
+};
+
+// Sending these twice has the same effect as sending them once; POST and PATCH are never retried
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+// Exponential backoff with jitter; a Retry-After in seconds from the server takes precedence
+function getRetryDelay(retry: Required<RetryOptions>, attempt: number, response?: Response): number {
+  const retryAfter = Number(response?.headers.get("Retry-After"));
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, retry.maxDelay);
+  }
+  const backoff = retry.baseDelay * 2 ** attempt;
+  return Math.min(backoff / 2 + Math.random() * (backoff / 2), retry.maxDelay);
+}
+
+function wait(milliseconds: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, milliseconds);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Build the fetch an ODataClient sends every request through. Each attempt gets the token and runs the request
+// interceptors, then the response interceptors; failures the options cover are retried before the response is
+// returned, so callers only see the final outcome
+export function createTransport(options: TransportOptions = {}): FetchLike {
+  // Read the global at call time so it can still be replaced after the client is created
+  const send: FetchLike = options.fetch || ((input, init) => fetch(input, init));
+  const retry = options.retry === false ? null : { ...DEFAULT_RETRY, ...options.retry };
+
+  return async (input, init = {}) => {
+    const method = (init.method || "GET").toUpperCase();
+    const retryable = retry && IDEMPOTENT_METHODS.includes(method) ? retry : null;
+    let attempt = 0;
+    let refreshToken = false;
+    let tokenRefreshed = false;
+
+    for (;;) {
+      const headers = new Headers(init.headers);
+      const token = options.getToken && (await options.getToken(refreshToken));
+      if (token && !headers.has("Authorization")) {
+        headers.set("Authorization", `Bearer ${token}`);
+      }
+      const signals = [init.signal, options.timeout ? AbortSignal.timeout(options.timeout) : null].filter(
+        (signal): signal is AbortSignal => !!signal
+      );
+      let request = new Request(input, {
+        ...init,
+        headers,
+        signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+      });
+      for (const intercept of options.onRequest || []) {
+        request = (await intercept(request)) || request;
+      }
+
+      let response: Response;
+      try {
+        response = await send(request);
+      } catch (err) {
+        // Network failures and timeouts, not aborts by the caller
+        if (!retryable || isAbortError(err) || init.signal?.aborted || attempt >= retryable.retries) {
+          throw err;
+        }
+        await wait(getRetryDelay(retryable, attempt++), init.signal);
+        continue;
+      }
+
+      for (const intercept of options.onResponse || []) {
+        response = (await intercept(response, request)) || response;
+      }
+
+      if (response.status === 401 && options.getToken && !tokenRefreshed) {
+        refreshToken = tokenRefreshed = true;
+        continue;
+      }
+      refreshToken = false;
+
+      if (retryable && retryable.statuses.includes(response.status) && attempt < retryable.retries) {
+        await wait(getRetryDelay(retryable, attempt++, response), init.signal);
+        continue;
+      }
+      return response;
+    }
+  };
+}
+
+export interface MockRoute {
+  method?: string; // Any method when omitted
+  url: string | RegExp; // A string matches URLs whose path ends with it, e.g. "/Products(1)"
+  // A Response is returned as is; any other value as a 200 JSON body
+  respond: (request: Request) => Response | unknown | Promise<Response | unknown>;
+}
+
+// A fetch for tests that answers from routes instead of the network and keeps the requests it was sent:
+//   const mock = createMockFetch([{ method: "GET", url: "/Products(1)", respond: () => ({ Id: 1 }) }]);
+//   new ODataClient({ baseUrl, transport: { fetch: mock } });
+// Requests no route matches get a 404
+export function createMockFetch(routes: MockRoute[]): FetchLike & { requests: Request[] } {
+  const requests: Request[] = [];
+
+  const mock = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    requests.push(request);
+
+    const path = new URL(request.url).pathname;
+    const route = routes.find(
+      (candidate) =>
+        (!candidate.method || candidate.method.toUpperCase() === request.method) &&
+        (typeof candidate.url === "string"
+          ? decodeURIComponent(path).endsWith(candidate.url)
+          : candidate.url.test(request.url))
+    );
+    if (!route) {
+      return Response.json(
+        { error: { code: "NotFound", message: `No mock route for ${request.method} ${path}` } },
+        {
+          status: 404,
+        }
+      );
+    }
+
+    const result = await route.respond(request);
+    return result instanceof Response ? result : Response.json(result);
+  };
+
+  return Object.assign(mock, { requests });
+}
@@ -1,705 +1,645 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import { useState, useCallback, useEffect } from "react";
-import { XMLParser } from "fast-xml-parser";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { ODataQuery, formatEntityKey, getEntityKey } from "./ODataQuery";
+import type { EntityKey } from "./ODataQuery";
+import { fetchODataPage, useODataClient } from "./ODataClient";
+import {
+  isAbortError,
+  ODataDeepInsertError,
+  ODataHttpError,
+  ODataNetworkError,
+  ODataNotFoundError,
+  ODataValidationError,
+} from "./ODataErrors";
+import type { ODataClient, ODataPage } from "./ODataClient";
+import { findParentForeignKeys, generateFormSchema } from "./ODataFormSchema";
+import type { EntityFieldConditions, GeneratedFormSchema, LookupFieldConfig } from "./ODataFormSchema";
+import { extractEntityMetadata, getElementType } from "./ODataMetadata";
+import type { EntityMetadata, ODataModel } from "./ODataMetadata";
+
+export { getFieldType, getInitialValue } from "./ODataFormSchema";
+export { ODATA_MAX_TOP } from "./ODataClient";
+export type { ODataPage } from "./ODataClient";
+export type { BatchFormat, BatchOperation, BatchOptions, BatchResult, ODataBatchBuilder } from "./ODataBatch";
+export { createMockFetch } from "./ODataTransport";
+export type {
+  FetchLike,
+  MockRoute,
+  RequestInterceptor,
+  ResponseInterceptor,
+  RetryOptions,
+  TransportOptions,
+} from "./ODataTransport";
+export {
+  isAbortError,
+  ODataClientError,
+  ODataConcurrencyError,
+  ODataDeepInsertError,
+  ODataHttpError,
+  ODataNetworkError,
+  ODataNotFoundError,
+  ODataTimeoutError,
+  ODataValidationError,
+} from "./ODataErrors";
+export type { ChildCollectionSchema, EntityFieldConditions, LookupFieldConfig } from "./ODataFormSchema";
 
 interface ODataCRUDConfig {
   baseUrl: string;
   entityName: string; // The entity this hook will work with
+  entitySet?: string; // URL segment override when it cannot be resolved from the EntityContainer
+  lookups?: Record<string, LookupFieldConfig>; // Keyed by foreign key property, e.g. "CategoryId"
+  unique?: string[]; // Fields checked against the server for duplicates while editing, e.g. ["OrderNumber"]
+  conditions?: EntityFieldConditions; // visibleWhen/disabledWhen/requiredWhen/computed by entity type and field
 }
 
-interface EntityMetadata {
-  name: string;
-  properties: PropertyMetadata[];
-  navigationProperties: NavigationPropertyMetadata[];
+// Options every CRUD method accepts
+interface RequestOptions {
+  // Aborts the call; calls are also aborted when the component unmounts or entityName changes
+  signal?: AbortSignal;
 }
 
-interface PropertyMetadata {
-  name: string;
-  type: string;
-  nullable: boolean;
-  maxLength?: number;
-  displayName?: string;
-  description?: string;
-  placeholder?: string;
+// Options of the writes to an existing entity
+interface WriteOptions extends RequestOptions {
+  // If-Match value: "*" writes whatever the server holds; by default the ETag last read for the entity is sent
+  etag?: string;
 }
 
-interface NavigationPropertyMetadata {
-  name: string;
-  type: string;
-  nullable: boolean;
-  isCollection: boolean;
-  partner?: string;
+// The entity's @odata.etag, or the ETag header of the response it came in
+function readETag(entity: unknown, response?: Response): string | undefined {
+  const etag = entity && typeof entity === "object" && "@odata.etag" in entity ? entity["@odata.etag"] : undefined;
+  return (typeof etag === "string" && etag) || response?.headers.get("ETag") || undefined;
 }
 
-interface ODataResponse<T> {
-  value: T[];
-  "@odata.count"?: number;
+// Record the ETag of an entity URL, or forget it when the last response carried none
+function rememberETag(etags: Map<string, string>, url: string, etag: string | undefined) {
+  if (etag) {
+    etags.set(url, etag);
+  } else {
+    etags.delete(url);
+  }
 }
 
-interface ODataError {
-  error: {
-    code: string;
-    message: string;
-  };
+// If-Match for a write to an entity URL. Without a known ETag the write is unconditional, as it must be for
+// entity types that declare no concurrency token
+function ifMatch(etags: Map<string, string>, url: string, etag?: string): Record<string, string> {
+  const value = etag ?? etags.get(url);
+  return value ? { "If-Match": value } : {};
 }
 
-export function useODataCRUD<T = any>({ baseUrl, entityName }: ODataCRUDConfig) {
-  console.log(`useODataCRUD hook initialized for entity: ${entityName}`);
+// Send an entity as JSON and return the entity the server answers with and its ETag; failures throw the parsed
+// ODataHttpError, a 412 from a stale If-Match an ODataConcurrencyError
+async function sendEntity<T>(
+  client: ODataClient,
+  url: string,
+  method: "POST" | "PUT" | "PATCH",
+  entity: unknown,
+  { headers = {}, signal }: { headers?: Record<string, string>; signal?: AbortSignal } = {}
+): Promise<{ data: T; etag?: string }> {
+  const response = await client.request(url, {
+    method,
+    signal,
+    headers: {
+      "Content-Type": "application/json",
+      ...headers,
+    },
+    body: JSON.stringify(entity),
+  });
 
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [allMetadata, setAllMetadata] = useState<any>(null);
-  const [formSchema, setFormSchema] = useState<{ schema: any; initialValues: any }>({ schema: {}, initialValues: {} });
-  const [navigationOptions, setNavigationOptions] = useState<
-    Record<string, Array<{ value: string | number; label: string }>>
-  >({});
+  const data: T = await response.json();
+  return { data, etag: readETag(data, response) };
+}
 
-  // GET all entities with optional OData query parameters
-  const getAll = useCallback(
-    async (query?: string): Promise<T[]> => {
-      setLoading(true);
-      setError(null);
+// Statuses with which a service refuses a deep insert it does not support, before applying anything. A 400 with
+// field errors is a validation failure of the entity instead
+const DEEP_INSERT_UNSUPPORTED_STATUSES = [400, 405, 415, 501];
 
-      try {
-        const url = query ? `${baseUrl}/odata/${entityName}?${query}` : `${baseUrl}/odata/${entityName}`;
+function isDeepInsertUnsupported(err: unknown): boolean {
+  return (
+    err instanceof ODataHttpError &&
+    !(err instanceof ODataValidationError) &&
+    DEEP_INSERT_UNSUPPORTED_STATUSES.includes(err.status)
+  );
+}
 
-        const response = await fetch(url);
+// Operations whose progress useODataCRUD reports in status
+export type ODataOperation =
+  "getPage" | "getAll" | "getById" | "create" | "update" | "patch" | "remove" | "removeMany" | "createWithChildren";
 
-        if (!response.ok) {
-          const errorData: ODataError = await response.json();
-          throw new Error(errorData.error?.message || `HTTP error! status: ${response.status}`);
-        }
+export interface OperationStatus {
+  loading: boolean; // At least one call is in flight
+  error: string | null; // Failure of the latest call; field errors are left to the form
+}
 
-        const data: ODataResponse<T> = await response.json();
-        return data.value || [];
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : "Unknown error occurred";
-        setError(errorMessage);
-        throw err;
-      } finally {
-        setLoading(false);
-      }
-    },
-    [baseUrl, entityName]
-  );
+const OPERATIONS: ODataOperation[] = [
+  "getPage",
+  "getAll",
+  "getById",
+  "create",
+  "update",
+  "patch",
+  "remove",
+  "removeMany",
+  "createWithChildren",
+];
+
+const IDLE_STATUS = Object.fromEntries(
+  OPERATIONS.map((operation) => [operation, { loading: false, error: null }])
+) as Record<ODataOperation, OperationStatus>;
+
+// The calls made for one baseUrl/entityName while the component is mounted, aborted together when that ends
+interface RequestScope {
+  controller: AbortController;
+  pending: Partial<Record<ODataOperation, number>>; // Calls in flight
+  latest: Partial<Record<ODataOperation, number>>; // Number of the last call started
+}
 
-  // GET single entity by ID
-  const getById = useCallback(
-    async (id: number | string, expand?: string): Promise<T | null> => {
-      setLoading(true);
-      setError(null);
+function createScope(): RequestScope {
+  return { controller: new AbortController(), pending: {}, latest: {} };
+}
 
-      try {
-        const url = expand
-          ? `${baseUrl}/odata/${entityName}(${id})?$expand=${expand}`
-          : `${baseUrl}/odata/${entityName}(${id})`;
+export function useODataCRUD<T extends object = Record<string, unknown>>({
+  baseUrl,
+  entityName,
+  entitySet,
+  lookups,
+  unique,
+  conditions,
+}: ODataCRUDConfig) {
+  console.log(`useODataCRUD hook initialized for entity: ${entityName}`);
 
-        const response = await fetch(url);
+  const client = useODataClient(baseUrl);
 
-        if (response.status === 404) {
-          return null;
-        }
+  const [status, setStatus] = useState(IDLE_STATUS);
+  const [error, setError] = useState<string | null>(null);
+  const [allMetadata, setAllMetadata] = useState<ODataModel | null>(null);
+  const [entityMetadata, setEntityMetadata] = useState<EntityMetadata | null>(null);
+  // Mirrors entityMetadata so query serialization does not recreate the CRUD callbacks once metadata arrives
+  const entityMetadataRef = useRef<EntityMetadata | null>(null);
+  const [formSchema, setFormSchema] = useState<GeneratedFormSchema>({ schema: {}, initialValues: {}, collections: {} });
+  // Read when the schema is generated so inline lookups/conditions objects do not regenerate it on every render
+  const lookupsRef = useRef(lookups);
+  lookupsRef.current = lookups;
+  const uniqueRef = useRef(unique);
+  uniqueRef.current = unique;
+  const conditionsRef = useRef(conditions);
+  conditionsRef.current = conditions;
+  // ETags of the entities read so far, by entity URL, sent back as If-Match when they are written
+  const etagsRef = useRef(new Map<string, string>());
+  const scopeRef = useRef<RequestScope | null>(null);
+
+  // A new scope for every baseUrl/entityName; the previous one is aborted so its responses are never applied
+  useEffect(() => {
+    const scope = createScope();
+    scopeRef.current = scope;
+    setStatus(IDLE_STATUS);
+    setError(null);
+    return () => {
+      scope.controller.abort();
+    };
+  }, [client, baseUrl, entityName]);
 
-        if (!response.ok) {
-          const errorData: ODataError = await response.json();
-          throw new Error(errorData.error?.message || `HTTP error! status: ${response.status}`);
-        }
+  const getScope = useCallback(() => {
+    if (!scopeRef.current) {
+      scopeRef.current = createScope();
+    }
+    return scopeRef.current;
+  }, []);
 
-        const data: T = await response.json();
-        return data;
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : "Unknown error occurred";
-        setError(errorMessage);
-        throw err;
-      } finally {
-        setLoading(false);
-      }
+  // The caller's signal combined with the scope's
+  const getSignal = useCallback(
+    (signal?: AbortSignal) => {
+      const scopeSignal = getScope().controller.signal;
+      return signal ? AbortSignal.any([scopeSignal, signal]) : scopeSignal;
     },
-    [baseUrl, entityName]
+    [getScope]
   );
 
-  // POST - Create new entity
-  const create = useCallback(
-    async (entity: Partial<T>): Promise<T> => {
-      setLoading(true);
-      setError(null);
+  // Run one call of an operation with the combined signal. loading counts every call in flight, error follows the
+  // latest call, and nothing is set once the scope has been aborted, e.g. after unmounting
+  const runOperation = useCallback(
+    async <R>(
+      operation: ODataOperation,
+      signal: AbortSignal | undefined,
+      work: (signal: AbortSignal) => Promise<R>
+    ) => {
+      const scope = getScope();
+      const combined = getSignal(signal);
+      const call = (scope.latest[operation] = (scope.latest[operation] || 0) + 1);
+      scope.pending[operation] = (scope.pending[operation] || 0) + 1;
+
+      const isCurrent = () => scope === scopeRef.current && !scope.controller.signal.aborted;
+      const updateStatus = (next: Partial<OperationStatus>) => {
+        if (!isCurrent()) return;
+        setStatus((current) => ({ ...current, [operation]: { ...current[operation], ...next } }));
+      };
 
+      updateStatus({ loading: true, error: null });
+      if (isCurrent()) setError(null);
       try {
-        const response = await fetch(`${baseUrl}/odata/${entityName}`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(entity),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          console.log("Create error response:", errorData);
-
-          // Handle direct validation errors format: {"Name":["The Product Name field is required."]}
-          if (typeof errorData === "object" && !errorData.error) {
-            const validationErrors: Record<string, string> = {};
-            Object.entries(errorData).forEach(([fieldName, messages]) => {
-              if (Array.isArray(messages) && messages.length > 0) {
-                validationErrors[fieldName] = messages[0];
-              } else if (typeof messages === "string") {
-                validationErrors[fieldName] = messages;
-              }
-            });
-
-            if (Object.keys(validationErrors).length > 0) {
-              console.log("Create validation errors found:", validationErrors);
-              throw { type: "validation", errors: validationErrors };
-            }
-          }
-
-          // Handle OData validation errors
-          if (errorData.error?.details) {
-            const validationErrors: Record<string, string> = {};
-            errorData.error.details.forEach((detail: any) => {
-              if (detail.target && detail.message) {
-                const fieldName = detail.target.replace(/^#\//, "");
-                validationErrors[fieldName] = detail.message;
-              }
-            });
-
-            if (Object.keys(validationErrors).length > 0) {
-              throw { type: "validation", errors: validationErrors };
-            }
-          }
-
-          // Handle ModelState validation errors (ASP.NET Core format)
-          if (errorData.error?.message && typeof errorData.error.message === "object") {
-            const validationErrors: Record<string, string> = {};
-            Object.entries(errorData.error.message).forEach(([fieldName, messages]) => {
-              if (Array.isArray(messages) && messages.length > 0) {
-                validationErrors[fieldName] = messages[0];
-              } else if (typeof messages === "string") {
-                validationErrors[fieldName] = messages;
-              }
-            });
-
-            if (Object.keys(validationErrors).length > 0) {
-              throw { type: "validation", errors: validationErrors };
-            }
-          }
-
-          throw new Error(errorData.error?.message || `HTTP error! status: ${response.status}`);
-        }
-
-        const data: T = await response.json();
-        return data;
+        const result = await work(combined);
+        // A response that arrives after the abort is stale
+        combined.throwIfAborted();
+        return result;
       } catch (err) {
-        if (err && typeof err === "object" && "type" in err && err.type === "validation") {
-          throw err;
+        const aborted = isAbortError(err) || combined.aborted;
+        if (!aborted && !(err instanceof ODataValidationError) && call === scope.latest[operation]) {
+          const errorMessage = err instanceof Error ? err.message : "Unknown error occurred";
+          updateStatus({ error: errorMessage });
+          if (isCurrent()) setError(errorMessage);
         }
-
-        const errorMessage = err instanceof Error ? err.message : "Unknown error occurred";
-        setError(errorMessage);
         throw err;
       } finally {
-        setLoading(false);
+        scope.pending[operation] = (scope.pending[operation] || 1) - 1;
+        updateStatus({ loading: scope.pending[operation] > 0 });
       }
     },
-    [baseUrl, entityName]
+    [getScope, getSignal]
   );
 
-  // PUT - Update entity completely
-  const update = useCallback(
-    async (id: number | string, entity: Partial<T>): Promise<T> => {
-      setLoading(true);
-      setError(null);
+  // Resolve the entity set URL for entityName through the EntityContainer, falling back to the name itself
+  const getEntitySetUrl = useCallback(async (): Promise<string> => {
+    if (entitySet) {
+      return `${baseUrl}/odata/${entitySet}`;
+    }
+    try {
+      const model = await client.getMetadata();
+      return `${baseUrl}/odata/${client.getEntitySetPath(model, entityName)}`;
+    } catch {
+      return `${baseUrl}/odata/${entityName}`;
+    }
+  }, [client, baseUrl, entityName, entitySet]);
+
+  // Resolve the URL of a single entity, formatting the key according to the declared <Key> properties
+  const getEntityUrl = useCallback(
+    async (key: EntityKey): Promise<string> => {
+      const entitySetUrl = await getEntitySetUrl();
+      const model = await client.getMetadata().catch(() => null);
+      return `${entitySetUrl}(${formatEntityKey(model && extractEntityMetadata(model, entityName), key)})`;
+    },
+    [client, entityName, getEntitySetUrl]
+  );
 
-      try {
-        const response = await fetch(`${baseUrl}/odata/${entityName}(${id})`, {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(entity),
-        });
+  const buildCollectionUrl = useCallback(
+    async (query?: string | ODataQuery<T>) => {
+      const entitySetUrl = await getEntitySetUrl();
+      const queryString =
+        query instanceof ODataQuery
+          ? query.toQueryString(entityMetadataRef.current, await client.getMetadata().catch(() => null))
+          : query;
+      return queryString ? `${entitySetUrl}?${queryString}` : entitySetUrl;
+    },
+    [client, getEntitySetUrl]
+  );
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          console.log("Update error response:", errorData);
-
-          // Handle direct validation errors format: {"Name":["The Product Name field is required."]}
-          if (typeof errorData === "object" && !errorData.error) {
-            const validationErrors: Record<string, string> = {};
-            Object.entries(errorData).forEach(([fieldName, messages]) => {
-              if (Array.isArray(messages) && messages.length > 0) {
-                validationErrors[fieldName] = messages[0];
-              } else if (typeof messages === "string") {
-                validationErrors[fieldName] = messages;
-              }
-            });
+  // Record the @odata.etag of collection items; items without their key properties (a narrow $select) are skipped
+  const rememberItemETags = useCallback(
+    async (items: T[]) => {
+      const metadata = entityMetadataRef.current;
+      if (!metadata || metadata.keys.length === 0) return;
+      for (const item of items) {
+        const etag = readETag(item);
+        if (etag && metadata.keys.every((name) => name in item)) {
+          etagsRef.current.set(await getEntityUrl(getEntityKey(metadata, item)), etag);
+        }
+      }
+    },
+    [getEntityUrl]
+  );
 
-            if (Object.keys(validationErrors).length > 0) {
-              console.log("Update validation errors found:", validationErrors);
-              throw { type: "validation", errors: validationErrors };
-            }
-          }
+  const fetchPage = useCallback(
+    async (url: string, signal: AbortSignal): Promise<ODataPage<T>> => {
+      const page = await fetchODataPage<T>(url, signal, client.send);
+      await rememberItemETags(page.items);
+      return page;
+    },
+    [client, rememberItemETags]
+  );
 
-          // Handle OData validation errors
-          if (errorData.error?.details) {
-            const validationErrors: Record<string, string> = {};
-            errorData.error.details.forEach((detail: any) => {
-              if (detail.target && detail.message) {
-                const fieldName = detail.target.replace(/^#\//, "");
-                validationErrors[fieldName] = detail.message;
-              }
-            });
+  // GET one page of entities together with @odata.count and @odata.nextLink
+  const getPage = useCallback(
+    (query?: string | ODataQuery<T>, { signal }: RequestOptions = {}): Promise<ODataPage<T>> =>
+      runOperation("getPage", signal, async (combined) => fetchPage(await buildCollectionUrl(query), combined)),
+    [runOperation, fetchPage, buildCollectionUrl]
+  );
 
-            if (Object.keys(validationErrors).length > 0) {
-              throw { type: "validation", errors: validationErrors };
-            }
-          }
+  // GET all entities with optional OData query parameters, either as a raw query string or a query builder
+  const getAll = useCallback(
+    (query?: string | ODataQuery<T>, { signal }: RequestOptions = {}): Promise<T[]> =>
+      runOperation("getAll", signal, async (combined) => {
+        const page = await fetchPage(await buildCollectionUrl(query), combined);
+        return page.items;
+      }),
+    [runOperation, fetchPage, buildCollectionUrl]
+  );
 
-          // Handle ModelState validation errors (ASP.NET Core format)
-          if (errorData.error?.message && typeof errorData.error.message === "object") {
-            const validationErrors: Record<string, string> = {};
-            Object.entries(errorData.error.message).forEach(([fieldName, messages]) => {
-              if (Array.isArray(messages) && messages.length > 0) {
-                validationErrors[fieldName] = messages[0];
-              } else if (typeof messages === "string") {
-                validationErrors[fieldName] = messages;
-              }
-            });
+  // Iterate every entity in the set, following @odata.nextLink until the server reports no more pages
+  const iterateAll = useCallback(
+    async function* (
+      query?: string | ODataQuery<T>,
+      { signal }: RequestOptions = {}
+    ): AsyncGenerator<T, void, undefined> {
+      const combined = getSignal(signal);
+      let url: string | undefined = await buildCollectionUrl(query);
+      while (url) {
+        const page: ODataPage<T> = await fetchPage(url, combined);
+        yield* page.items;
+        url = page.nextLink;
+      }
+    },
+    [getSignal, buildCollectionUrl, fetchPage]
+  );
 
-            if (Object.keys(validationErrors).length > 0) {
-              throw { type: "validation", errors: validationErrors };
-            }
-          }
+  // Whether no entity in the set has this value in the field, e.g. a new OrderNumber
+  const isUnique = useCallback(
+    async (field: string, value: unknown, signal?: AbortSignal): Promise<boolean> => {
+      const query = new ODataQuery(entityMetadataRef.current)
+        .filter((f) => f.eq(field, value))
+        .select(field)
+        .top(1);
+      const page = await fetchODataPage(
+        await buildCollectionUrl(query.toQueryString()),
+        getSignal(signal),
+        client.send
+      );
+      return page.items.length === 0;
+    },
+    [client, buildCollectionUrl, getSignal]
+  );
 
-          throw new Error(errorData.error?.message || `HTTP error! status: ${response.status}`);
+  // GET single entity by ID; a string is treated as the $expand value, a query builder supplies $select/$expand
+  const getById = useCallback(
+    (id: EntityKey, expand?: string | ODataQuery<T>, { signal }: RequestOptions = {}): Promise<T | null> =>
+      runOperation("getById", signal, async (combined) => {
+        const queryString =
+          expand instanceof ODataQuery
+            ? expand.toQueryString(entityMetadataRef.current, await client.getMetadata().catch(() => null))
+            : expand && `$expand=${expand}`;
+        const entityUrl = await getEntityUrl(id);
+        const url = queryString ? `${entityUrl}?${queryString}` : entityUrl;
+
+        try {
+          const response = await client.request(url, { signal: combined });
+          const data: T = await response.json();
+          rememberETag(etagsRef.current, entityUrl, readETag(data, response));
+          return data;
+        } catch (err) {
+          if (err instanceof ODataNotFoundError) {
+            return null;
+          }
+          throw err;
         }
+      }),
+    [runOperation, client, getEntityUrl]
+  );
 
-        const data: T = await response.json();
+  // POST - Create new entity
+  const create = useCallback(
+    (entity: Partial<T>, { signal }: RequestOptions = {}): Promise<T> =>
+      runOperation("create", signal, async (combined) => {
+        const { data } = await sendEntity<T>(client, await getEntitySetUrl(), "POST", entity, { signal: combined });
         return data;
-      } catch (err) {
-        if (err && typeof err === "object" && "type" in err && err.type === "validation") {
-          throw err;
-        }
+      }),
+    [runOperation, client, getEntitySetUrl]
+  );
 
-        const errorMessage = err instanceof Error ? err.message : "Unknown error occurred";
-        setError(errorMessage);
-        throw err;
-      } finally {
-        setLoading(false);
-      }
-    },
-    [baseUrl, entityName]
+  // PUT - Update entity completely
+  const update = useCallback(
+    (id: EntityKey, entity: Partial<T>, { etag, signal }: WriteOptions = {}): Promise<T> =>
+      runOperation("update", signal, async (combined) => {
+        const url = await getEntityUrl(id);
+        const headers = ifMatch(etagsRef.current, url, etag);
+        const saved = await sendEntity<T>(client, url, "PUT", entity, { headers, signal: combined });
+        rememberETag(etagsRef.current, url, saved.etag);
+        return saved.data;
+      }),
+    [runOperation, client, getEntityUrl]
   );
 
   // PATCH - Update entity partially
   const patch = useCallback(
-    async (id: number | string, entity: Partial<T>): Promise<T> => {
-      setLoading(true);
-      setError(null);
+    (id: EntityKey, entity: Partial<T>, { etag, signal }: WriteOptions = {}): Promise<T> =>
+      runOperation("patch", signal, async (combined) => {
+        const url = await getEntityUrl(id);
+        const headers = ifMatch(etagsRef.current, url, etag);
+        const saved = await sendEntity<T>(client, url, "PATCH", entity, { headers, signal: combined });
+        rememberETag(etagsRef.current, url, saved.etag);
+        return saved.data;
+      }),
+    [runOperation, client, getEntityUrl]
+  );
 
-      try {
-        const response = await fetch(`${baseUrl}/odata/${entityName}(${id})`, {
-          method: "PATCH",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(entity),
+  // DELETE - Delete entity
+  const remove = useCallback(
+    (id: EntityKey, { etag, signal }: WriteOptions = {}): Promise<void> =>
+      runOperation("remove", signal, async (combined) => {
+        const url = await getEntityUrl(id);
+        const headers = ifMatch(etagsRef.current, url, etag);
+        await client.request(url, { method: "DELETE", headers, signal: combined });
+        etagsRef.current.delete(url);
+      }),
+    [runOperation, client, getEntityUrl]
+  );
+
+  // DELETE several entities in one $batch change set. Whether a change set is atomic is up to the service: the
+  // bundled Api commits each delete on its own, so after a failure the deletes before it may have gone through
+  const removeMany = useCallback(
+    (ids: EntityKey[], { signal }: RequestOptions = {}): Promise<void> =>
+      runOperation("removeMany", signal, async (combined) => {
+        const urls = await Promise.all(ids.map((id) => getEntityUrl(id)));
+        const results = await client.batch(
+          (batch) =>
+            batch.changeSet((changeSet) => {
+              urls.forEach((url) => changeSet.remove(url, { etag: etagsRef.current.get(url) }));
+            }),
+          { signal: combined }
+        );
+        results.forEach((result, index) => {
+          if (result.ok) etagsRef.current.delete(urls[index]);
         });
+        const failed = results.find((result) => result.error);
+        if (failed) {
+          throw failed.error;
+        }
+      }),
+    [runOperation, client, getEntityUrl]
+  );
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          console.log("Patch error response:", errorData);
-
-          // Handle direct validation errors format: {"Name":["The Product Name field is required."]}
-          if (typeof errorData === "object" && !errorData.error) {
-            const validationErrors: Record<string, string> = {};
-            Object.entries(errorData).forEach(([fieldName, messages]) => {
-              if (Array.isArray(messages) && messages.length > 0) {
-                validationErrors[fieldName] = messages[0];
-              } else if (typeof messages === "string") {
-                validationErrors[fieldName] = messages;
+  // POST an entity with rows for its collection navigation properties, e.g. an Order with its OrderItems.
+  // A deep insert is tried first; when the server says it does not support one the parent is created on its own,
+  // each child is POSTed with the parent's key in its foreign key, and everything created so far is deleted if a
+  // child fails. A deep insert that may have been applied is never repeated: it fails with ODataDeepInsertError
+  const createWithChildren = useCallback(
+    (
+      entity: Partial<T>,
+      children: Record<string, Record<string, unknown>[]>,
+      { deepInsert = true, signal }: RequestOptions & { deepInsert?: boolean } = {}
+    ): Promise<T> =>
+      runOperation("createWithChildren", signal, async (combined) => {
+        if (deepInsert) {
+          try {
+            const { data } = await sendEntity<T>(
+              client,
+              await getEntitySetUrl(),
+              "POST",
+              { ...entity, ...children },
+              {
+                signal: combined,
               }
-            });
-
-            if (Object.keys(validationErrors).length > 0) {
-              console.log("Patch validation errors found:", validationErrors);
-              throw { type: "validation", errors: validationErrors };
+            );
+            return data;
+          } catch (err) {
+            if (!isDeepInsertUnsupported(err)) {
+              if (err instanceof ODataNetworkError || (err instanceof ODataHttpError && err.status >= 500)) {
+                throw new ODataDeepInsertError(
+                  `${entityName} may have been created although the request failed (${err.message}); check before creating it again`,
+                  { url: err.url, method: err.method, cause: err }
+                );
+              }
+              throw err;
             }
           }
+        }
 
-          // Handle OData validation errors
-          if (errorData.error?.details) {
-            const validationErrors: Record<string, string> = {};
-            errorData.error.details.forEach((detail: any) => {
-              if (detail.target && detail.message) {
-                const fieldName = detail.target.replace(/^#\//, "");
-                validationErrors[fieldName] = detail.message;
-              }
-            });
-
-            if (Object.keys(validationErrors).length > 0) {
-              throw { type: "validation", errors: validationErrors };
-            }
+        const createdUrls: string[] = [];
+        try {
+          const model = await client.getMetadata();
+          const parentMetadata = extractEntityMetadata(model, entityName);
+          if (!parentMetadata) {
+            throw new Error(`Entity type ${entityName} not found in metadata`);
           }
 
-          // Handle ModelState validation errors (ASP.NET Core format)
-          if (errorData.error?.message && typeof errorData.error.message === "object") {
-            const validationErrors: Record<string, string> = {};
-            Object.entries(errorData.error.message).forEach(([fieldName, messages]) => {
-              if (Array.isArray(messages) && messages.length > 0) {
-                validationErrors[fieldName] = messages[0];
-              } else if (typeof messages === "string") {
-                validationErrors[fieldName] = messages;
-              }
-            });
+          const { data: created } = await sendEntity<T>(client, await getEntitySetUrl(), "POST", entity, {
+            signal: combined,
+          });
+          createdUrls.push(await getEntityUrl(getEntityKey(parentMetadata, created)));
 
-            if (Object.keys(validationErrors).length > 0) {
-              throw { type: "validation", errors: validationErrors };
+          for (const [navigationName, rows] of Object.entries(children)) {
+            const navProp = parentMetadata.navigationProperties.find((nav) => nav.name === navigationName);
+            if (!navProp || !navProp.isCollection) {
+              throw new Error(`${navigationName} is not a collection navigation property of ${entityName}`);
+            }
+            const childMetadata = extractEntityMetadata(model, getElementType(navProp.type));
+            const childSetUrl = `${baseUrl}/odata/${client.getNavigationPath(model, entityName, navProp)}`;
+            const parentForeignKeys = findParentForeignKeys(model, parentMetadata, navProp);
+
+            for (let index = 0; index < rows.length; index++) {
+              const row = { ...rows[index] };
+              parentForeignKeys.forEach((constraint) => {
+                row[constraint.property] = (created as Record<string, unknown>)[constraint.referencedProperty];
+              });
+
+              try {
+                const { data: createdChild } = await sendEntity<Record<string, unknown>>(
+                  client,
+                  childSetUrl,
+                  "POST",
+                  row,
+                  {
+                    signal: combined,
+                  }
+                );
+                if (childMetadata) {
+                  createdUrls.push(
+                    `${childSetUrl}(${formatEntityKey(childMetadata, getEntityKey(childMetadata, createdChild))})`
+                  );
+                }
+              } catch (err) {
+                // Report child field errors by their row path, e.g. "OrderItems[2].Quantity"
+                throw err instanceof ODataValidationError ? err.withPathPrefix(`${navigationName}[${index}]`) : err;
+              }
             }
           }
 
-          throw new Error(errorData.error?.message || `HTTP error! status: ${response.status}`);
-        }
-
-        const data: T = await response.json();
-        return data;
-      } catch (err) {
-        if (err && typeof err === "object" && "type" in err && err.type === "validation") {
+          return created;
+        } catch (err) {
+          // Undo in reverse order so children are removed before their parent. Not abortable: an aborted
+          // create must not leave half an order behind
+          for (const url of createdUrls.reverse()) {
+            await client.request(url, { method: "DELETE" }).catch((rollbackError) => {
+              console.error(`Rollback of ${url} failed:`, rollbackError);
+            });
+          }
           throw err;
         }
-
-        const errorMessage = err instanceof Error ? err.message : "Unknown error occurred";
-        setError(errorMessage);
-        throw err;
-      } finally {
-        setLoading(false);
-      }
-    },
-    [baseUrl, entityName]
-  );
-
-  // DELETE - Delete entity
-  const remove = useCallback(
-    async (id: number | string): Promise<void> => {
-      setLoading(true);
-      setError(null);
-
-      try {
-        const response = await fetch(`${baseUrl}/odata/${entityName}(${id})`, {
-          method: "DELETE",
-        });
-
-        if (!response.ok) {
-          const errorData: ODataError = await response.json();
-          throw new Error(errorData.error?.message || `HTTP error! status: ${response.status}`);
-        }
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : "Unknown error occurred";
-        setError(errorMessage);
-        throw err;
-      } finally {
-        setLoading(false);
-      }
-    },
-    [baseUrl, entityName]
+      }),
+    [runOperation, client, baseUrl, entityName, getEntitySetUrl, getEntityUrl]
   );
 
-  // Extract entity metadata from parsed OData metadata
-  function extractEntityMetadata(parsedMetadata: any, targetEntityName: string): EntityMetadata | null {
-    try {
-      const schemas = parsedMetadata["edmx:Edmx"]["edmx:DataServices"]["Schema"];
-      const schema = Array.isArray(schemas) ? schemas[0] : schemas;
-
-      if (!schema.EntityType) {
-        return null;
-      }
-
-      const entityTypes = Array.isArray(schema.EntityType) ? schema.EntityType : [schema.EntityType];
-
-      const targetEntity = entityTypes.find((entity: any) => entity.Name === targetEntityName);
-
-      if (!targetEntity) {
-        return null;
-      }
-
-      // Extract properties
-      const properties: PropertyMetadata[] = [];
-      if (targetEntity.Property) {
-        const props = Array.isArray(targetEntity.Property) ? targetEntity.Property : [targetEntity.Property];
-
-        props.forEach((prop: any) => {
-          // Extract display attributes from OData annotations
-          const displayName =
-            prop["@_sap:label"] ||
-            prop["@_sap:display-format"] ||
-            prop["@_sap:quickinfo"] ||
-            prop["@_microsoft:displayName"] ||
-            prop["@_microsoft:label"] ||
-            prop["@_odata:displayName"] ||
-            prop["@_odata:label"];
-
-          const description =
-            prop["@_sap:quickinfo"] ||
-            prop["@_sap:label"] ||
-            prop["@_microsoft:description"] ||
-            prop["@_odata:description"];
-
-          const placeholder =
-            prop["@_sap:placeholder"] ||
-            prop["@_sap:display-format"] ||
-            prop["@_microsoft:placeholder"] ||
-            prop["@_odata:placeholder"];
-
-          properties.push({
-            name: prop.Name,
-            type: prop.Type,
-            nullable: prop.Nullable === "true",
-            maxLength: prop.MaxLength ? parseInt(prop.MaxLength) : undefined,
-            displayName,
-            description,
-            placeholder,
-          });
-        });
-      }
-
-      // Extract navigation properties
-      const navigationProperties: NavigationPropertyMetadata[] = [];
-      if (targetEntity.NavigationProperty) {
-        const navProps = Array.isArray(targetEntity.NavigationProperty)
-          ? targetEntity.NavigationProperty
-          : [targetEntity.NavigationProperty];
-
-        navProps.forEach((navProp: any) => {
-          navigationProperties.push({
-            name: navProp.Name,
-            type: navProp.Type,
-            nullable: navProp.Nullable === "true",
-            isCollection: navProp.Type.startsWith("Collection("),
-            partner: navProp.Partner,
-          });
-        });
-      }
-
-      return {
-        name: targetEntity.Name,
-        properties,
-        navigationProperties,
-      };
-    } catch (err) {
-      console.error("Error extracting entity metadata:", err);
-      return null;
-    }
-  }
-
-  // Initialize metadata and form schema once
+  // Initialize metadata and form schema once; the client shares the parsed $metadata between hook instances
   useEffect(() => {
+    // Ignore the result when entityName changes or the component unmounts before the metadata arrives
+    let cancelled = false;
+
     const initializeForm = async () => {
       try {
-        // Fetch metadata
-        const response = await fetch(`${baseUrl}/odata/$metadata`);
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        const xmlText = await response.text();
-        const parser = new XMLParser({
-          ignoreAttributes: false,
-          attributeNamePrefix: "",
-        });
-        const parsedMetadata = parser.parse(xmlText);
-        console.log(parsedMetadata);
+        const model = await client.getMetadata();
+        if (cancelled) return;
         console.log(`Setting allMetadata for entity: ${entityName}`);
-        setAllMetadata(parsedMetadata);
+        setAllMetadata(model);
 
         // Generate form schema
-        const entityMetadata = extractEntityMetadata(parsedMetadata, entityName);
+        const entityMetadata = extractEntityMetadata(model, entityName);
         console.log(entityMetadata);
-        if (entityMetadata) {
-          const schema: Record<string, { type: string; props: any }> = {};
-          const initialValues: Record<string, any> = {};
-          const navOptions: Record<string, Array<{ value: string | number; label: string }>> = {};
-
-          // Handle regular properties
-          entityMetadata.properties
-            .filter((prop: any) => {
-              return (
-                !prop.name.startsWith("__") &&
-                prop.name !== "Id" &&
-                prop.name !== "id" &&
-                !prop.name.toLowerCase().includes("id")
-              );
-            })
-            .forEach((prop: any) => {
-              const fieldType = getFieldType(prop);
-              initialValues[prop.name] = getInitialValue(prop);
-
-              schema[prop.name] = {
-                type: fieldType,
-                props: {
-                  label: prop.displayName || prop.name,
-                  helpText: prop.description,
-                  placeholder: prop.placeholder || `Enter ${prop.name.toLowerCase()}`,
-                  required: !prop.nullable,
-                  ...(prop.maxLength && { maxLength: prop.maxLength }),
-                  ...(prop.type === "Edm.Decimal" || prop.type === "Edm.Double" ? { step: "0.01" } : {}),
-                  ...(fieldType === "date" && { type: "date" }),
-                },
-              };
-            });
-
-          // Handle navigation properties - load all options first
-          if (entityMetadata.navigationProperties) {
-            const navigationPromises: Promise<void>[] = [];
-
-            for (const navProp of entityMetadata.navigationProperties) {
-              if (!navProp.isCollection) {
-                // Use the navigation property name directly for the API call
-                const targetEntityName = navProp.name;
-
-                // Find the corresponding foreign key field (e.g., "Category" -> "CategoryId")
-                const foreignKeyField = `${navProp.name}Id`;
-                const hasForeignKey = entityMetadata.properties.some((prop: any) => prop.name === foreignKeyField);
-
-                if (hasForeignKey) {
-                  // Use the foreign key field name for the form
-                  initialValues[foreignKeyField] = "";
-
-                  schema[foreignKeyField] = {
-                    type: "select",
-                    props: {
-                      label: navProp.name,
-                      helpText: `Select ${targetEntityName}`,
-                      placeholder: `Choose ${targetEntityName}`,
-                      required: !navProp.nullable,
-                      options: [], // Will be populated below
-                    },
-                  };
-
-                  // Create a promise for loading navigation options
-                  const loadNavigationOptions = async () => {
-                    try {
-                      const navResponse = await fetch(`${baseUrl}/odata/${targetEntityName}`);
-                      if (navResponse.ok) {
-                        const navData = await navResponse.json();
-                        const entities = navData.value || navData || [];
-                        const options = entities.map((entity: any) => ({
-                          value: entity.Id || entity.id || entity.ID,
-                          label:
-                            entity.Name ||
-                            entity.name ||
-                            entity.Title ||
-                            entity.title ||
-                            `ID: ${entity.Id || entity.id || entity.ID}`,
-                        }));
-                        navOptions[foreignKeyField] = options;
-                        // Update the schema with the options
-                        schema[foreignKeyField].props.options = options;
-                        console.log(`Loaded ${options.length} options for ${navProp.name} (${foreignKeyField})`);
-                      }
-                    } catch (navErr) {
-                      console.error(`Error loading navigation options for ${navProp.name}:`, navErr);
-                      navOptions[foreignKeyField] = [];
-                    }
-                  };
-
-                  navigationPromises.push(loadNavigationOptions());
-                } else {
-                  console.warn(`No foreign key field found for navigation property ${navProp.name}`);
-                }
-              }
-            }
-
-            // Wait for all navigation options to be loaded
-            await Promise.all(navigationPromises);
-          }
-
-          // Set form schema after all navigation options are loaded
-          setFormSchema({ schema, initialValues });
-          setNavigationOptions(navOptions);
-          console.log(`Form schema generated for ${entityName}:`, Object.keys(schema));
-          console.log(`Navigation options:`, navOptions);
+        entityMetadataRef.current = entityMetadata;
+        setEntityMetadata(entityMetadata);
+        const generated = generateFormSchema(model, entityName, {
+          client,
+          baseUrl,
+          lookups: lookupsRef.current,
+          conditions: conditionsRef.current,
+        });
+        if (generated) {
+          uniqueRef.current?.forEach((field) => {
+            const definition = generated.schema[field];
+            if (!definition) return;
+            definition.rules = [
+              ...(definition.rules || []),
+              {
+                type: "async",
+                message: "{label} must be unique",
+                validate: (value, _values, signal) => isUnique(field, value, signal),
+              },
+            ];
+          });
+          setFormSchema(generated);
+          console.log(`Form schema generated for ${entityName}:`, Object.keys(generated.schema));
         }
       } catch (err) {
-        console.error("Error initializing form:", err);
+        if (!cancelled) {
+          console.error("Error initializing form:", err);
+        }
       }
     };
 
     initializeForm();
-  }, [baseUrl, entityName]);
-
-  // Utility functions for form generation - based on OData metadata
-  const getFieldType = useCallback((property: PropertyMetadata): string => {
-    // Use OData type from metadata to determine field type
-    switch (property.type) {
-      case "Edm.String":
-        // Check if it's a long text field based on maxLength
-        if (property.maxLength && property.maxLength > 255) {
-          return "textarea";
-        }
-        return "text";
-      case "Edm.Int32":
-      case "Edm.Int64":
-        return "number";
-      case "Edm.Decimal":
-      case "Edm.Double":
-        return "number";
-      case "Edm.Boolean":
-        return "checkbox";
-      case "Edm.DateTime":
-      case "Edm.DateTimeOffset":
-        return "date";
-      case "Edm.Guid":
-        return "text"; // GUID as text input
-      case "Edm.Binary":
-        return "file"; // Binary data as file input
-      default:
-        // For complex types or navigation properties, default to text
-        return "text";
-    }
-  }, []);
-
-  const getInitialValue = useCallback((property: PropertyMetadata): any => {
-    switch (property.type) {
-      case "Edm.String":
-        return "";
-      case "Edm.Int32":
-      case "Edm.Int64":
-        return 0;
-      case "Edm.Decimal":
-      case "Edm.Double":
-        return 0;
-      case "Edm.Boolean":
-        return false;
-      case "Edm.DateTime":
-      case "Edm.DateTimeOffset":
-        return "";
-      case "Edm.Guid":
-        return "";
-      case "Edm.Binary":
-        return null;
-      default:
-        return "";
-    }
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [client, baseUrl, entityName, isUnique]);
 
   return {
     // CRUD operations
     getAll,
+    getPage,
+    iterateAll,
     getById,
     create,
     update,
     patch,
     remove,
+    removeMany,
+    createWithChildren,
+    isUnique,
 
     // Metadata operations
     allMetadata,
+    entityMetadata,
 
     // Form utilities
     formSchema,
-    navigationOptions,
 
-    // State
-    loading,
+    // State: per operation, e.g. status.create.loading, and combined over all of them
+    status,
+    loading: OPERATIONS.some((operation) => status[operation].loading),
     error,
   };
 }
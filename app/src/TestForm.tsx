@@ -4,23 +4,11 @@
 
 import React from "react";
 import { NATIVE_INPUT_CONFIG, useForm } from "./Builder/old/FB";
+import { defineSchema } from "./Builder/core/FormSchema";
+import type { InferFormValues } from "./Builder/core/FormSchema";
 
 // Form Schema Definition (Single Responsibility: Data Structure)
-type UserForm = {
-  username: string;
-  email: string;
-  password: string;
-  age: number;
-  accept: boolean;
-  country: string;
-  birthdate: string;
-  gender: string;
-  appointmentTime: string;
-  bio: string;
-  skills: string[];
-};
-
-const USER_FORM_SCHEMA = {
+const USER_FORM_SCHEMA = defineSchema(NATIVE_INPUT_CONFIG, {
   username: {
     type: "text",
     props: {
@@ -148,7 +136,10 @@ const USER_FORM_SCHEMA = {
       required: true,
     },
   },
-} as const;
+});
+
+// { username: string; age: number; accept: boolean; skills: string[]; ... }
+type UserForm = InferFormValues<typeof USER_FORM_SCHEMA>;
 
 const INITIAL_VALUES: UserForm = {
   username: "",
@@ -201,7 +192,7 @@ const validateUserForm = (values: UserForm): Record<string, string> => {
 };
 // NEW: Simplified Form Component using useForm hook
 export default function ExampleForm() {
-  const [form] = useForm<UserForm>(INITIAL_VALUES, USER_FORM_SCHEMA, NATIVE_INPUT_CONFIG, validateUserForm);
+  const [form] = useForm(INITIAL_VALUES, USER_FORM_SCHEMA, NATIVE_INPUT_CONFIG, validateUserForm);
   const handleSubmit = React.useCallback(
     (e: React.FormEvent) => {
       e.preventDefault();